@@ -1,90 +1,541 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AlgorithmType, GridDimensions, Coordinate, AlgoStep, GameResult, DIRECTIONS } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AlgorithmType, MapType, GridDimensions, GridMap, AuthoredMap, Coordinate, AlgoStep, GameResult, DIRECTIONS, TerrainType, TERRAIN_COSTS, GRID_SIZE_LIMITS, MovementRules, Topology, DEFAULT_MOVEMENT, HeuristicOptions, HeuristicType, DEFAULT_HEURISTIC, RaceMode, PlayerMove, SearchOptions, TieBreak, DEFAULT_TIE_BREAK, NeighborOrder, DEFAULT_NEIGHBOR_ORDER } from './types';
 import * as Algorithms from './services/algorithms';
-import Grid from './components/Grid';
-import { Play, RotateCcw, Award, Settings, Info, ArrowRight, User, Bot } from 'lucide-react';
+import * as Mazes from './services/mazes';
+import { AlgoTrace } from './services/trace';
+import { MoveDirection, stepInDirection, getDirectionTowards, getDistanceName } from './services/topology';
+import { startSearch, SearchHandle } from './services/searchClient';
+import { createRandom, randomSeed, parseSeed } from './services/random';
+import { ChallengeConfig, getChallengeLink, parseChallengeInput, readChallengeFromLocation } from './services/challenge';
+import { createRecording, serializeRecording, parseRecording, GameRecording } from './services/recording';
+import { MatchRecord, loadHistory, recordMatch, clearHistory, exportHistory } from './services/history';
+import { AccessibilitySettings, MotionPreference, PaletteName, PALETTES, PATTERN_GLYPHS, loadAccessibility, saveAccessibility, describeCell, describeTerrain } from './services/accessibility';
+import { HeatmapType, HEATMAP_LABELS, getHeatmapTypes, getOverlayHeuristic, getEstimates, getHeatmap } from './services/heatmap';
+import Grid, { TERRAIN_STYLES } from './components/Grid';
+import CanvasGrid, { shouldUseCanvas } from './components/CanvasGrid';
+import MapEditor from './components/MapEditor';
+import PlaybackControls, { PLAYBACK_SPEEDS, BASE_TICK_MS } from './components/PlaybackControls';
+import HistoryPanel from './components/HistoryPanel';
+import CompareView from './components/CompareView';
+import VersusView from './components/VersusView';
+import HeatmapLegend from './components/HeatmapLegend';
+import AlgorithmInspector from './components/AlgorithmInspector';
+import DPad from './components/DPad';
+import CellSwatch from './components/CellSwatch';
+import { Play, RotateCcw, Award, Settings, Info, ArrowRight, User, Bot, Brush, Trash2, Film, Scale, AlertTriangle, Eye, EyeOff, Hash, Link, Check, Download, Upload, Trophy, GitCompare, Layers, Code, Gamepad2, Accessibility, Users } from 'lucide-react';
 
 // --- Constants ---
 const DEFAULT_ROWS = 15;
 const DEFAULT_COLS = 20;
 const INITIAL_START: Coordinate = { row: 0, col: 0 };
-const TICK_RATE_MS = 50; // Speed of algorithm visualization
-
-// --- Helper: Random Goal ---
-const generateGoal = (dims: GridDimensions, start: Coordinate): Coordinate => {
-  let r, c;
-  do {
-    r = Math.floor(Math.random() * dims.rows);
-    c = Math.floor(Math.random() * dims.cols);
-  } while (r === start.row && c === start.col);
-  return { row: r, col: c };
+const DEFAULT_RACE_SPEED = 10; // 20 steps per second
+const DEFAULT_REPLAY_SPEED = 2;
+const EXPANSIONS_PER_MOVE = [1, 2, 3, 5, 10]; // Turn-based: algorithm steps granted per player move
+const DEFAULT_EXPANSIONS_PER_MOVE = 2;
+
+const MAZE_TICK_MS = 20; // Speed of map generation animation
+const MAZE_ANIMATION_TICKS = 60; // Generation animation is squeezed into roughly this many ticks
+
+// Diagonal keys only do something on 8-way and hex boards
+const KEY_MOVES: Record<string, MoveDirection> = {
+  ArrowUp: 'UP', w: 'UP',
+  ArrowDown: 'DOWN', s: 'DOWN',
+  ArrowLeft: 'LEFT', a: 'LEFT',
+  ArrowRight: 'RIGHT', d: 'RIGHT',
+  q: 'UP_LEFT', e: 'UP_RIGHT',
+  z: 'DOWN_LEFT', c: 'DOWN_RIGHT'
+};
+
+// Shorter drags on the player board count as taps
+const SWIPE_MIN_DISTANCE = 24;
+
+// Touch screens start with touch help and the D-pad; the last key or finger used takes over from there
+type InputMethod = 'KEYBOARD' | 'TOUCH';
+const detectInputMethod = (): InputMethod => window.matchMedia?.('(pointer: coarse)').matches ? 'TOUCH' : 'KEYBOARD';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  'SYSTEM': "Follow system setting",
+  'REDUCED': "Reduce motion",
+  'FULL': "Full animation"
+};
+
+const TOPOLOGY_LABELS: Record<Topology, string> = {
+  'Square4': "4-way (up, down, left, right)",
+  'Square8': "8-way (with diagonals)",
+  'Hex': "Hexagonal (6 neighbours)"
+};
+
+// Algorithms guided by the movement-matched distance (A*'s heuristic is configurable instead)
+const HEURISTIC_ALGOS: AlgorithmType[] = ['Greedy', 'IDA*'];
+
+const HEURISTIC_LABELS: Record<HeuristicType, string> = {
+  'Matched': "Matched to movement",
+  'Manhattan': "Manhattan",
+  'Euclidean': "Euclidean",
+  'Chebyshev': "Chebyshev",
+  'Zero': "Zero (same as Dijkstra)",
+  'Overestimate': "Overestimate × k"
+};
+
+// Searches driven by a priority queue, where the tie-breaking policy matters
+const PRIORITY_QUEUE_ALGOS: AlgorithmType[] = ['Dijkstra', 'A*', 'Greedy', 'JPS'];
+
+const TIE_BREAK_LABELS: Record<TieBreak, string> = {
+  'FIFO': "FIFO (oldest entry first)",
+  'LIFO': "LIFO (newest entry first)",
+  'HIGH_G': "Prefer higher g (furthest travelled)",
+  'LOW_H': "Prefer lower h (closest-looking)"
+};
+
+const NEIGHBOR_ORDER_LABELS: Record<NeighborOrder, string> = {
+  'FIXED': "Fixed (the board's built-in order)",
+  'CLOCKWISE': "Clockwise from up",
+  'GOAL_BIASED': "Goal-biased (closest to the goal first)",
+  'RANDOM': "Random per cell (from the board seed)"
 };
 
+// What each goal-seeking algorithm does instead when it can't see the goal
+const BLIND_FALLBACKS: Partial<Record<AlgorithmType, string>> = {
+  'A*': "Blind, A* has nothing to estimate from, so it expands the cheapest frontier cell first, exactly like Dijkstra.",
+  'Greedy': "Blind, Greedy walks to the unexplored frontier cell nearest to where it stands, mapping the board like a robot.",
+  'Bidirectional': "Blind, there is no goal to search back from, so only the forward half runs: plain BFS.",
+  'IDA*': "Blind, IDA* has no estimate, so each pass simply raises its cost budget.",
+  'JPS': "Blind, JPS orders its jump points by distance travelled alone; its scans still notice the goal when they pass over it."
+};
+
+const OVERESTIMATE_FACTORS = [1.5, 2, 3, 5];
+const HEURISTIC_WEIGHTS = [1, 1.25, 1.5, 2, 3, 5];
+
+// Typed sizes are clamped once the input loses focus
+const clampGridSize = (value: number): number => {
+  if (Number.isNaN(value)) return GRID_SIZE_LIMITS.min;
+  return Math.min(GRID_SIZE_LIMITS.max, Math.max(GRID_SIZE_LIMITS.min, Math.round(value)));
+};
+
+// Saves text as a file through a temporary download link
+const downloadJson = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Costs can be fractional (roads), so show one decimal only when needed
+const formatCost = (cost: number): string => Number.isInteger(cost) ? String(cost) : cost.toFixed(1);
+
 // --- Educational Texts ---
+const MAP_LABELS: Record<MapType, string> = {
+  'Open': "Open Field",
+  'Scattered': "Scattered Walls",
+  'Backtracker': "Maze: Recursive Backtracker",
+  'Prim': "Maze: Randomized Prim's",
+  'Kruskal': "Maze: Randomized Kruskal's",
+  'Division': "Maze: Recursive Division",
+  'Caves': "Caves (Cellular Automata)"
+};
+
 const ALGO_DESCRIPTIONS: Record<AlgorithmType, string> = {
-  'BFS': "Breadth-First Search: Explores equally in all directions. Guarantees the shortest path in an unweighted grid by visiting nodes level-by-level.",
+  'BFS': "Breadth-First Search: Explores equally in all directions. Guarantees the fewest steps by visiting nodes level-by-level, but ignores terrain costs.",
   'DFS': "Depth-First Search: Explores as far as possible along each branch before backtracking. Does NOT guarantee shortest path and can get lost in large grids.",
-  'Dijkstra': "Dijkstra's Algorithm: Prioritizes nodes with the smallest known distance from the start. Identical to BFS on unweighted grids but handles weights.",
-  'A*': "A* Search: Uses a heuristic (Manhattan distance) to estimate cost to the goal. Prioritizes exploration towards the target, often visiting far fewer nodes."
+  'Dijkstra': "Dijkstra's Algorithm: Prioritizes nodes with the smallest total travel cost from the start. Matches BFS on plain ground, but with roads, mud and water it finds the cheapest route rather than the shortest.",
+  'A*': "A* Search: Uses a heuristic (the move distance for the chosen movement, priced at the cheapest terrain) to estimate cost to the goal. Prioritizes exploration towards the target, often visiting far fewer nodes.",
+  'Greedy': "Greedy Best-First Search: Always expands whichever frontier cell is closest to the goal as the crow flies, ignoring how far it has already come. Very fast in open space, but easily lured into dead ends and not guaranteed to find the shortest or cheapest path.",
+  'Bidirectional': "Bidirectional BFS: Runs two breadth-first searches at once, one from the start (indigo) and one from the goal (teal), and stops where they meet. Finds the fewest steps while exploring roughly half the area of a single BFS. Ignores terrain costs.",
+  'IDDFS': "Iterative Deepening DFS: Runs a depth-limited DFS with limit 0, 1, 2, ... starting over each time. Needs only DFS's memory yet finds the fewest steps like BFS, at the price of re-exploring the same cells on every pass. Gives up on very large searches.",
+  'IDA*': "IDA* (Iterative Deepening A*): A depth-first search bounded by the A* estimate g + h. Each pass raises the bound to the smallest estimate that exceeded it, so it finds the cheapest route with very little memory but repeats work between passes.",
+  'JPS': "Jump Point Search: A* that skips along straight corridors and only stops at cells where the route might need to turn. It expands very few cells on open ground, but assumes every move costs the same, so it ignores terrain."
 };
 
+const ALGORITHMS = Object.keys(ALGO_DESCRIPTIONS) as AlgorithmType[];
+const COMPARE_DEFAULTS: AlgorithmType[] = ['BFS', 'Dijkstra', 'A*']; // Compare mode opens with these plus the chosen opponent
+
 const App: React.FC = () => {
   // --- State ---
   const [dimensions, setDimensions] = useState<GridDimensions>({ rows: DEFAULT_ROWS, cols: DEFAULT_COLS });
   const [selectedAlgo, setSelectedAlgo] = useState<AlgorithmType>('BFS');
-  const [gameStatus, setGameStatus] = useState<'SETUP' | 'PLAYING' | 'FINISHED'>('SETUP');
+  const [mapType, setMapType] = useState<MapType>('Open');
+  const [mixedTerrain, setMixedTerrain] = useState(false);
+  const [movement, setMovement] = useState<MovementRules>(DEFAULT_MOVEMENT);
+  const [heuristic, setHeuristic] = useState<HeuristicOptions>(DEFAULT_HEURISTIC); // A* only
+  const [tieBreak, setTieBreak] = useState<TieBreak>(DEFAULT_TIE_BREAK); // Priority queue searches only
+  const [neighborOrder, setNeighborOrder] = useState<NeighborOrder>(DEFAULT_NEIGHBOR_ORDER);
+  const [blindMode, setBlindMode] = useState(false); // Algorithms only find the goal by stepping on it
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [gameStatus, setGameStatus] = useState<'SETUP' | 'EDITING' | 'COMPARING' | 'VERSUS' | 'GENERATING' | 'COMPUTING' | 'PLAYING' | 'FINISHED'>('SETUP');
+  const inGame = gameStatus !== 'SETUP' && gameStatus !== 'EDITING' && gameStatus !== 'COMPARING' && gameStatus !== 'VERSUS';
+  const [authoredMap, setAuthoredMap] = useState<AuthoredMap | null>(null); // Replaces generated maps while set
+  const [seedInput, setSeedInput] = useState(''); // Blank picks a fresh seed every round
+  const [gameSeed, setGameSeed] = useState<number | null>(null); // Seed the current board was built from
+  const [challengeInput, setChallengeInput] = useState('');
+  const [challengeError, setChallengeError] = useState<string | null>(null);
+  const [pendingChallenge, setPendingChallenge] = useState(false); // Start once the loaded settings are in state
+  const [linkCopied, setLinkCopied] = useState(false);
   
   // Game Entities
   const [goalPos, setGoalPos] = useState<Coordinate>({ row: 0, col: 0 }); // Placeholder
-  const [startPos] = useState<Coordinate>(INITIAL_START);
+  const [startPos, setStartPos] = useState<Coordinate>(INITIAL_START);
+  const [walls, setWalls] = useState<Set<string>>(new Set());
+  const [terrain, setTerrain] = useState<Map<string, TerrainType>>(new Map());
+  const [mazeAnimation, setMazeAnimation] = useState<Mazes.MazeResult | null>(null);
+  const gridMap = useMemo<GridMap>(() => ({ ...dimensions, walls, terrain, movement }), [dimensions, walls, terrain, movement]);
+  const BoardGrid = shouldUseCanvas(dimensions) ? CanvasGrid : Grid; // One <div> per cell gets too slow on big boards
   
   // Player State
   const [playerPos, setPlayerPos] = useState<Coordinate>(INITIAL_START);
   const [playerPath, setPlayerPath] = useState<Set<string>>(new Set(['0,0'])); // Visited cells history
   const [playerSteps, setPlayerSteps] = useState(0);
+  const [playerCost, setPlayerCost] = useState(0);
+  const [moves, setMoves] = useState<PlayerMove[]>([]); // Every move of the current game, in order
   const [startTime, setStartTime] = useState<number>(0);
   const [elapsedTime, setElapsedTime] = useState(0);
 
   // Algorithm State
-  const [algoHistory, setAlgoHistory] = useState<AlgoStep[]>([]);
+  const [algoTrace, setAlgoTrace] = useState<AlgoTrace>(() => new AlgoTrace());
+  const [traceLength, setTraceLength] = useState(0); // Steps streamed in from the search so far
+  const [searchDone, setSearchDone] = useState(false);
   const [algoStepIndex, setAlgoStepIndex] = useState(0);
   const [algoFinished, setAlgoFinished] = useState(false);
+  const [raceSpeed, setRaceSpeed] = useState(DEFAULT_RACE_SPEED); // Difficulty knob
+  const [raceMode, setRaceMode] = useState<RaceMode>('REALTIME');
+  const [expansionsPerMove, setExpansionsPerMove] = useState(DEFAULT_EXPANSIONS_PER_MOVE); // Difficulty knob for TURNS
+  const [heatmapType, setHeatmapType] = useState<HeatmapType | null>(null); // Kept across games; ignored where it doesn't apply
+  const [heatmapNumbers, setHeatmapNumbers] = useState(false);
+  const [showInspector, setShowInspector] = useState(false); // Pseudocode and data structure panel
+  const [inputMethod, setInputMethod] = useState<InputMethod>(detectInputMethod);
+  const [showDPad, setShowDPad] = useState(() => detectInputMethod() === 'TOUCH');
+  const swipeRef = useRef<{ x: number; y: number } | null>(null); // Where a press on the player board began
+  const pressedCellRef = useRef<Coordinate | null>(null); // Which cell it began on
+
+  // Accessibility
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibility);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(() => !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches);
+  const [announcement, setAnnouncement] = useState({ text: '', id: 0 }); // Read out by the live region
+  const reducedMotion = accessibility.motion === 'REDUCED' || (accessibility.motion === 'SYSTEM' && systemReducedMotion);
+  const palette = accessibility.palette === 'DEFAULT' ? undefined : PALETTES[accessibility.palette].colors;
+  const swatchColors = PALETTES[accessibility.palette].colors;
+
+  // Replay (after the game is finished)
+  const [showResults, setShowResults] = useState(true);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(DEFAULT_REPLAY_SPEED);
+  const [replayIndex, setReplayIndex] = useState(0); // Frame on the combined player + algorithm timeline
+  const [importError, setImportError] = useState<string | null>(null);
   
   // Results
-  const [winner, setWinner] = useState<'PLAYER' | 'ALGORITHM' | 'DRAW' | null>(null);
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [history, setHistory] = useState<MatchRecord[]>(loadHistory); // Every finished game in this browser
+  const [showHistory, setShowHistory] = useState(false);
+  const winner = result?.winner ?? null;
 
   // --- Refs ---
   const timerRef = useRef<number | null>(null);
   const algoTimerRef = useRef<number | null>(null);
+  const searchRef = useRef<SearchHandle | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const cancelSearch = () => {
+    searchRef.current?.cancel();
+    searchRef.current = null;
+  };
+
+  // Runs the search in a worker; steps stream into a fresh trace as they are found
+  const runSearch = (algorithm: AlgorithmType, grid: GridMap, start: Coordinate, goal: Coordinate, options: SearchOptions) => {
+    cancelSearch();
+    const trace = new AlgoTrace();
+    setAlgoTrace(trace);
+    setTraceLength(0);
+    setSearchDone(false);
+    setAlgoStepIndex(0);
+    searchRef.current = startSearch({ algorithm, grid, start, goal, options }, {
+      onBatch: events => {
+        trace.append(events);
+        setTraceLength(trace.length);
+      },
+      onDone: () => setSearchDone(true),
+      onError: message => {
+        setSetupError(`The ${algorithm} search failed: ${message}`);
+        setGameStatus('SETUP');
+      }
+    });
+  };
+
+  // --- Logic: Accessibility ---
+  // A fresh id re-renders the live region, so repeating the same message is read out again
+  const announce = useCallback((text: string) => setAnnouncement(prev => ({ text, id: prev.id + 1 })), []);
+
+  const updateAccessibility = (patch: Partial<AccessibilitySettings>) => {
+    const next = { ...accessibility, ...patch };
+    setAccessibility(next);
+    saveAccessibility(next);
+  };
+
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const handleChange = () => setSystemReducedMotion(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
 
   // --- Logic: Start Game ---
   const startGame = () => {
-    // 1. Setup Grid
-    const newGoal = generateGoal(dimensions, startPos);
-    setGoalPos(newGoal);
-    setPlayerPos({ ...startPos });
-    setPlayerPath(new Set([`${startPos.row},${startPos.col}`]));
+    // 1. Setup Grid (an authored map is used as-is, otherwise generate one)
+    // Terrain, walls and goal all draw from one seeded stream, so the seed alone rebuilds the board
+    const seed = parseSeed(seedInput) ?? randomSeed();
+    const board = authoredMap
+      ? Mazes.authoredBoard(authoredMap, movement)
+      : Mazes.generateBoard({ dims: dimensions, mapType, mixedTerrain, movement }, INITIAL_START, createRandom(seed));
+
+    if (!board) {
+      setSetupError(authoredMap
+        ? "The custom map's goal cannot be reached from its start."
+        : "Could not place a reachable goal. Try another map type or a larger grid.");
+      setGameStatus('SETUP');
+      return;
+    }
+    const { maze, grid, start, goal } = board;
+    setSetupError(null);
+    setImportError(null);
+    setGameSeed(seed);
+    setLinkCopied(false);
+    setStartPos(start);
+    // The board starts from the generator's initial layout when the map is animated in
+    setWalls(maze.frames.length > 0 && !reducedMotion ? maze.initial : maze.walls);
+    setTerrain(grid.terrain);
+    setGoalPos(goal);
+    setPlayerPos({ ...start });
+    setPlayerPath(new Set([`${start.row},${start.col}`]));
     setPlayerSteps(0);
+    setPlayerCost(0);
+    setMoves([]);
     setElapsedTime(0);
-    setWinner(null);
+    setResult(null);
     setAlgoFinished(false);
+    setShowResults(true);
+    setReplayPlaying(false);
 
-    // 2. Run Algorithm Pre-calculation
-    let history: AlgoStep[] = [];
-    switch (selectedAlgo) {
-      case 'BFS': history = Algorithms.runBFS(dimensions, startPos, newGoal); break;
-      case 'DFS': history = Algorithms.runDFSRecursive(dimensions, startPos, newGoal); break;
-      case 'Dijkstra': history = Algorithms.runDijkstra(dimensions, startPos, newGoal); break;
-      case 'A*': history = Algorithms.runAStar(dimensions, startPos, newGoal); break;
+    // 2. Run the search
+    runSearch(selectedAlgo, grid, start, goal, { heuristic, tieBreak, neighborOrder, neighborSeed: seed, blind: blindMode });
+
+    // 3. Start State (after the map generation animation, if there is one)
+    if (maze.frames.length > 0 && !reducedMotion) {
+      setMazeAnimation(maze);
+      setGameStatus('GENERATING');
+    } else {
+      setGameStatus('COMPUTING');
     }
-    setAlgoHistory(history);
-    setAlgoStepIndex(0);
+  };
+
+  // --- Logic: Race Start ---
+  // The race begins as soon as the first batch of search steps has arrived
+  useEffect(() => {
+    if (gameStatus === 'COMPUTING' && traceLength > 0) {
+      setGameStatus('PLAYING');
+      setStartTime(Date.now());
+      announce(`Race started against ${selectedAlgo}. You are at ${describeCell(playerPos)}.`);
+    }
+  }, [gameStatus, traceLength, selectedAlgo, playerPos, announce]);
+
+  // Leaving the game (Reset, Change Settings, editor, compare mode) abandons a search that is still running
+  useEffect(() => {
+    if (!inGame) cancelSearch();
+  }, [inGame]);
+
+  useEffect(() => cancelSearch, []);
+
+  // --- Logic: Map Editor ---
+  const openEditor = () => setGameStatus('EDITING');
+
+  // JPS is the 4-connected variant, so it can't stay selected on other boards
+  const changeTopology = (topology: Topology) => {
+    setMovement(m => ({ ...m, topology }));
+    if (topology !== 'Square4' && selectedAlgo === 'JPS') setSelectedAlgo('A*');
+  };
+
+  // Editing starts from the current custom map, or a blank board of the configured size
+  const editorInitialMap: AuthoredMap = authoredMap ?? {
+    ...dimensions,
+    walls: new Set(),
+    terrain: new Map(),
+    start: INITIAL_START,
+    goal: { row: dimensions.rows - 1, col: dimensions.cols - 1 }
+  };
+
+  const saveAuthoredMap = (map: AuthoredMap) => {
+    setAuthoredMap(map);
+    setDimensions({ rows: map.rows, cols: map.cols });
+    setGameStatus('SETUP');
+  };
+
+  // --- Logic: Challenge Links ---
+  const challengeConfig: ChallengeConfig | null = gameSeed === null ? null : {
+    seed: gameSeed,
+    ...dimensions,
+    mapType,
+    mixedTerrain,
+    algorithm: selectedAlgo,
+    raceMode,
+    raceSpeed,
+    expansionsPerMove,
+    movement,
+    heuristic,
+    tieBreak,
+    neighborOrder,
+    blind: blindMode,
+    map: authoredMap ?? undefined
+  };
+
+  // Takes over every setting from a challenge or recording
+  const applySettings = (config: ChallengeConfig) => {
+    setSeedInput(String(config.seed));
+    setAuthoredMap(config.map ?? null);
+    setDimensions(config.map ? { rows: config.map.rows, cols: config.map.cols } : { rows: config.rows, cols: config.cols });
+    setMapType(config.mapType);
+    setMixedTerrain(config.mixedTerrain);
+    setSelectedAlgo(config.algorithm);
+    setRaceMode(config.raceMode);
+    setRaceSpeed(config.raceSpeed);
+    setExpansionsPerMove(config.expansionsPerMove);
+    setMovement(config.movement);
+    setHeuristic(config.heuristic);
+    setTieBreak(config.tieBreak);
+    setNeighborOrder(config.neighborOrder);
+    setBlindMode(config.blind);
+  };
+
+  // Challenges start the round once their settings are in state
+  const applyChallenge = (config: ChallengeConfig) => {
+    applySettings(config);
+    setPendingChallenge(true);
+  };
 
-    // 3. Start State
-    setGameStatus('PLAYING');
-    setStartTime(Date.now());
+  const loadChallenge = () => {
+    const config = parseChallengeInput(challengeInput);
+    if (!config) {
+      setChallengeError("That isn't a valid challenge code or link.");
+      return;
+    }
+    setChallengeError(null);
+    setChallengeInput('');
+    applyChallenge(config);
   };
 
+  const copyChallengeLink = () => {
+    if (!challengeConfig) return;
+    navigator.clipboard.writeText(getChallengeLink(challengeConfig)).then(() => setLinkCopied(true), () => {});
+  };
+
+  // Opening a challenge link drops straight into its board; the hash is dropped so a reload starts fresh
+  useEffect(() => {
+    const config = readChallengeFromLocation();
+    if (!config) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    applyChallenge(config);
+  }, []);
+
+  useEffect(() => {
+    if (!pendingChallenge) return;
+    setPendingChallenge(false);
+    startGame();
+  }, [pendingChallenge]);
+
+  // --- Logic: Recordings ---
+  const exportGame = () => {
+    if (!challengeConfig || !result) return;
+    const board: AuthoredMap = { ...dimensions, walls, terrain, start: startPos, goal: goalPos };
+    const recording = createRecording(challengeConfig, board, moves, result);
+    downloadJson(`race-${challengeConfig.seed}-${recording.recordedAt.slice(0, 19).replace(/[:T]/g, '-')}.json`, serializeRecording(recording));
+  };
+
+  // --- Logic: Match History ---
+  const exportMatchHistory = () => {
+    downloadJson(`race-history-${new Date().toISOString().slice(0, 10)}.json`, exportHistory(history));
+  };
+
+  const clearMatchHistory = () => {
+    clearHistory();
+    setHistory([]);
+  };
+
+  // Restores the finished game and opens it in the replay viewer; the algorithm's
+  // steps are not stored, so its search runs again on the recorded board
+  const loadRecording = (recording: GameRecording) => {
+    const { config, board, moves: recordedMoves, result: recordedResult } = recording;
+    applySettings(config);
+    setDimensions({ rows: board.rows, cols: board.cols });
+    setSetupError(null);
+    setImportError(null);
+    setGameSeed(config.seed);
+    setLinkCopied(false);
+    setStartPos(board.start);
+    setGoalPos(board.goal);
+    setWalls(board.walls);
+    setTerrain(board.terrain);
+    setPlayerPos(recordedMoves.length > 0 ? recordedMoves[recordedMoves.length - 1].to : board.start);
+    setPlayerPath(new Set([board.start, ...recordedMoves.map(m => m.to)].map(c => `${c.row},${c.col}`)));
+    setPlayerSteps(recordedResult.playerSteps);
+    setPlayerCost(recordedResult.playerCost);
+    setMoves(recordedMoves);
+    setElapsedTime(recordedResult.playerTime);
+    setResult(recordedResult);
+    setAlgoFinished(true);
+
+    const grid: GridMap = { rows: board.rows, cols: board.cols, walls: board.walls, terrain: board.terrain, movement: config.movement };
+    runSearch(config.algorithm, grid, board.start, board.goal, {
+      heuristic: config.heuristic,
+      tieBreak: config.tieBreak,
+      neighborOrder: config.neighborOrder,
+      neighborSeed: config.seed,
+      blind: config.blind
+    });
+
+    setShowResults(false);
+    setReplayPlaying(false);
+    setReplayIndex(0);
+    setGameStatus('FINISHED');
+  };
+
+  // Read, parse and apply failures all end up in the same message
+  const importGame = async (file: File) => {
+    try {
+      loadRecording(parseRecording(await file.text()));
+    } catch (e) {
+      setImportError(`Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  // --- Logic: Map Generation Animation ---
+  useEffect(() => {
+    if (gameStatus !== 'GENERATING' || !mazeAnimation) return;
+
+    const { frames } = mazeAnimation;
+    const framesPerTick = Math.max(1, Math.ceil(frames.length / MAZE_ANIMATION_TICKS));
+    let frameIndex = 0;
+
+    const timer = window.setInterval(() => {
+      const batch = frames.slice(frameIndex, frameIndex + framesPerTick);
+      frameIndex += batch.length;
+      setWalls(prev => {
+        const next = new Set<string>(prev);
+        batch.forEach(frame => Mazes.applyMazeFrame(next, frame));
+        return next;
+      });
+
+      if (frameIndex >= frames.length) {
+        clearInterval(timer);
+        setWalls(mazeAnimation.walls);
+        setGameStatus('COMPUTING');
+      }
+    }, MAZE_TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [gameStatus, mazeAnimation]);
+
   // --- Logic: Timer Loop ---
   useEffect(() => {
     if (gameStatus === 'PLAYING') {
@@ -92,18 +543,20 @@ const App: React.FC = () => {
         setElapsedTime((Date.now() - startTime) / 1000);
       }, 100);
 
-      // Algorithm Tick
-      algoTimerRef.current = window.setInterval(() => {
-        setAlgoStepIndex(prev => {
-          if (prev < algoHistory.length - 1) {
-            return prev + 1;
-          } else {
-            // Algo finished animation
-            if (!algoFinished) setAlgoFinished(true);
-            return prev;
-          }
-        });
-      }, TICK_RATE_MS);
+      // Algorithm Tick (turn-based races advance on player moves instead)
+      if (raceMode === 'REALTIME') {
+        algoTimerRef.current = window.setInterval(() => {
+          setAlgoStepIndex(prev => {
+            if (prev < traceLength - 1) {
+              return prev + 1;
+            } else {
+              // Algo finished animation (or caught up with a search that is still streaming)
+              if (searchDone && !algoFinished) setAlgoFinished(true);
+              return prev;
+            }
+          });
+        }, BASE_TICK_MS / raceSpeed);
+      }
     } else {
       if (timerRef.current) clearInterval(timerRef.current);
       if (algoTimerRef.current) clearInterval(algoTimerRef.current);
@@ -113,98 +566,299 @@ const App: React.FC = () => {
       if (timerRef.current) clearInterval(timerRef.current);
       if (algoTimerRef.current) clearInterval(algoTimerRef.current);
     };
-  }, [gameStatus, algoHistory, startTime, algoFinished]);
-
-  // --- Logic: Check Win Conditions ---
-  const checkWin = useCallback((isPlayerMove: boolean) => {
-    // Check if both are done
-    const isPlayerAtGoal = playerPos.row === goalPos.row && playerPos.col === goalPos.col;
-    const isAlgoAtGoal = algoHistory.length > 0 && algoStepIndex >= algoHistory.length - 1;
-
-    // We only end game if PLAYER reaches goal. 
-    // If algo reaches first, game continues until player finishes or gives up (but we track who won).
-    
-    if (isPlayerAtGoal) {
-      setGameStatus('FINISHED');
-      if (isAlgoAtGoal) {
-        // Tie breaker logic based on steps? Or just who finished in real time?
-        // Simple: If algo finished previously, algo wins.
-        if (algoFinished) setWinner('ALGORITHM');
-        else setWinner('PLAYER');
-      } else {
-        setWinner('PLAYER');
-      }
-    } else if (isAlgoAtGoal && !algoFinished) {
+  }, [gameStatus, traceLength, searchDone, startTime, algoFinished, raceSpeed, raceMode]);
+
+  // --- Logic: Replay Timeline ---
+  // Algorithm steps and player moves merged in the order they happened: a move stamped with
+  // tick t comes right after algorithm step t. Frame f shows the board after f + 1 of these events.
+  const lastTraceIndex = Math.max(0, traceLength - 1);
+  const replayLength = lastTraceIndex + 1 + moves.length;
+  const moveFrames = useMemo(
+    () => moves.map((m, i) => Math.min(m.tick, lastTraceIndex) + i + 1),
+    [moves, lastTraceIndex]
+  );
+  const replayFrame = useMemo(() => {
+    let movesMade = 0;
+    while (movesMade < moveFrames.length && moveFrames[movesMade] <= replayIndex) movesMade++;
+    return { algoIndex: Math.min(replayIndex - movesMade, lastTraceIndex), movesMade };
+  }, [moveFrames, replayIndex, lastTraceIndex]);
+
+  const replaying = gameStatus === 'FINISHED' && !showResults;
+
+  useEffect(() => {
+    if (replaying) setAlgoStepIndex(replayFrame.algoIndex);
+  }, [replaying, replayFrame]);
+
+  // The player's board during a replay: the first `movesMade` recorded moves
+  const replayPlayer = useMemo(() => {
+    const made = moves.slice(0, replayFrame.movesMade);
+    const cells = [startPos, ...made.map(m => m.to)];
+    return {
+      pos: cells[cells.length - 1],
+      path: new Set(cells.map(c => `${c.row},${c.col}`)),
+      steps: made.length,
+      cost: made.reduce((sum, m, i) => sum + Algorithms.getStepCost(cells[i], m.to, gridMap), 0)
+    };
+  }, [moves, replayFrame, startPos, gridMap]);
+
+  // --- Logic: Replay Transport ---
+  useEffect(() => {
+    if (!replaying || !replayPlaying) return;
+
+    const timer = window.setInterval(() => {
+      setReplayIndex(prev => {
+        if (prev < replayLength - 1) return prev + 1;
+        setReplayPlaying(false);
+        return prev;
+      });
+    }, BASE_TICK_MS / replaySpeed);
+
+    return () => clearInterval(timer);
+  }, [replaying, replayPlaying, replaySpeed, replayLength]);
+
+  // The replay opens on the moment the race ended: the later of the final move and the algorithm's last tick
+  const openReplay = () => {
+    const lastMoveFrame = moveFrames.length > 0 ? moveFrames[moveFrames.length - 1] : 0;
+    const endFrame = Math.max(lastMoveFrame, (result?.algoTime ?? lastTraceIndex) + moves.length);
+    setReplayIndex(Math.min(endFrame, replayLength - 1));
+    setReplayPlaying(false);
+    setShowResults(false);
+  };
+
+  const toggleReplay = () => {
+    // Pressing play at the end starts the replay over
+    if (!replayPlaying && replayIndex >= replayLength - 1) setReplayIndex(0);
+    setReplayPlaying(prev => !prev);
+  };
+
+  const seekReplay = (index: number) => {
+    setReplayPlaying(false);
+    setReplayIndex(index);
+  };
+
+  // --- Logic: Results ---
+  // Snapshot of the race at the moment it ends; player figures are passed in because a
+  // winning move's state updates have not landed yet when the keydown handler finishes the game
+  const finishRace = useCallback((outcome: GameResult['winner'], steps: number, cost: number) => {
+    const reachedGoal = algoTrace.pathStepIndex >= 0 && algoStepIndex >= algoTrace.pathStepIndex;
+    const algoTime = reachedGoal ? algoTrace.pathStepIndex : algoStepIndex;
+    const explored = traceLength > 0 ? algoTrace.getStep(algoTime) : null;
+    const path = reachedGoal ? algoTrace.path : undefined;
+
+    const finished: GameResult = {
+      winner: outcome,
+      mode: raceMode,
+      playerSteps: steps,
+      playerCost: cost,
+      playerTime: (Date.now() - startTime) / 1000,
+      algoSteps: path ? path.length - 1 : null,
+      algoCost: path ? Algorithms.getPathCost(path, gridMap) : null,
+      algoVisitedCount: explored ? explored.visited.size + (explored.backwardVisited?.size ?? 0) : 0,
+      algoTime
+    };
+    setResult(finished);
+    setHistory(recordMatch({
+      playedAt: new Date().toISOString(),
+      algorithm: selectedAlgo,
+      rows: gridMap.rows,
+      cols: gridMap.cols,
+      mapType: authoredMap ? 'Custom' : mapType,
+      blind: blindMode,
+      seed: gameSeed ?? 0,
+      result: finished
+    }));
+    setGameStatus('FINISHED');
+    announce(`${outcome === 'PLAYER' ? "You won!" : outcome === 'DRAW' ? "It's a draw." : `${selectedAlgo} won.`} ` +
+      `You took ${steps} ${steps === 1 ? 'step' : 'steps'} at a cost of ${formatCost(cost)}` +
+      (path ? `; ${selectedAlgo} took ${path.length - 1} steps.` : '.'));
+  }, [algoTrace, algoStepIndex, traceLength, raceMode, startTime, gridMap, selectedAlgo, authoredMap, mapType, blindMode, gameSeed, announce]);
+
+  // --- Logic: Check Win Conditions (real time) ---
+  // The player's arrival ends the race (see the keydown handler); here we only note when the
+  // algorithm's animation is over. An exhausted search never counts as reaching the goal.
+  useEffect(() => {
+    if (gameStatus !== 'PLAYING' || raceMode !== 'REALTIME') return;
+    const isAlgoDone = searchDone && traceLength > 0 && algoStepIndex >= traceLength - 1;
+    if (isAlgoDone && !algoFinished) {
       setAlgoFinished(true);
+      announce(algoTrace.path ? `${selectedAlgo} has reached the goal. Reach it too to finish.` : `${selectedAlgo} stopped without finding the goal.`);
     }
-  }, [playerPos, goalPos, algoHistory, algoStepIndex, algoFinished]);
+  }, [algoStepIndex, gameStatus, raceMode, searchDone, traceLength, algoFinished, algoTrace, selectedAlgo, announce]);
 
+  // --- Logic: Turn-Based Race ---
+  // Every player move grants the algorithm a fixed number of steps. Streaming may lag
+  // behind the grant, so the index catches up as batches arrive.
   useEffect(() => {
-    if (gameStatus === 'PLAYING') {
-      checkWin(false);
+    if (gameStatus !== 'PLAYING' || raceMode !== 'TURNS' || traceLength === 0) return;
+    const granted = playerSteps * expansionsPerMove;
+    setAlgoStepIndex(Math.min(granted, traceLength - 1));
+    if (searchDone && granted >= traceLength - 1 && !algoFinished) setAlgoFinished(true);
+  }, [gameStatus, raceMode, playerSteps, expansionsPerMove, traceLength, searchDone, algoFinished]);
+
+  // Both sides move in the same turn, so arriving on the same turn is a genuine draw
+  useEffect(() => {
+    if (gameStatus !== 'PLAYING' || raceMode !== 'TURNS') return;
+    const granted = playerSteps * expansionsPerMove;
+    const playerAtGoal = playerPos.row === goalPos.row && playerPos.col === goalPos.col;
+    const algoArrivalTurn = algoTrace.pathStepIndex >= 0 ? Math.ceil(algoTrace.pathStepIndex / expansionsPerMove) : null;
+
+    if (algoArrivalTurn !== null && algoArrivalTurn <= playerSteps) {
+      if (algoStepIndex < algoTrace.pathStepIndex) return; // Let the board show the arrival first
+      finishRace(playerAtGoal && algoArrivalTurn === playerSteps ? 'DRAW' : 'ALGORITHM', playerSteps, playerCost);
+    } else if (playerAtGoal && (searchDone || traceLength - 1 >= granted)) {
+      finishRace('PLAYER', playerSteps, playerCost);
     }
-  }, [algoStepIndex, gameStatus, checkWin]);
+  }, [gameStatus, raceMode, playerSteps, playerCost, playerPos, goalPos, expansionsPerMove, algoTrace, algoStepIndex, traceLength, searchDone, finishRace]);
 
   // --- Logic: Input Handling ---
+  // Keyboard, D-pad, swipes and taps all end up here, so they share the move rules and the win check
+  const movePlayer = useCallback((nextPos: Coordinate) => {
+    if (gameStatus !== 'PLAYING') return;
+    const newR = nextPos.row;
+    const newC = nextPos.col;
+
+    // Same neighbour rules as the algorithms, including blocked corner cuts
+    if (!Algorithms.getNeighbors(playerPos, gridMap).some(n => n.row === newR && n.col === newC)) {
+      const outside = newR < 0 || newR >= gridMap.rows || newC < 0 || newC >= gridMap.cols;
+      announce(outside ? "Blocked: edge of the board."
+        : gridMap.walls.has(`${newR},${newC}`) ? "Blocked: wall."
+        : Math.max(Math.abs(newR - playerPos.row), Math.abs(newC - playerPos.col)) > 1 ? "That cell is not next to you."
+        : "Blocked: you can't cut the corner of a wall.");
+      return;
+    }
+    const nextTerrain = gridMap.terrain.get(`${newR},${newC}`);
+    announce(`${describeCell(nextPos)}${nextTerrain ? `, ${describeTerrain(nextTerrain)}` : ''}${playerPath.has(`${newR},${newC}`) ? ', visited before' : ''}.`);
+
+    setPlayerPos(nextPos);
+    setPlayerSteps(prev => prev + 1);
+    setPlayerCost(prev => prev + Algorithms.getStepCost(playerPos, nextPos, gridMap));
+    setMoves(prev => [...prev, { to: nextPos, time: Date.now() - startTime, tick: algoStepIndex }]);
+
+    setPlayerPath(prev => {
+      const nextSet = new Set(prev);
+      nextSet.add(`${newR},${newC}`);
+      return nextSet;
+    });
+
+    // Real time: check the win inside the event loop for instant feedback.
+    // The algorithm wins only if it already stood on the goal (not if it ran out of cells).
+    if (raceMode === 'REALTIME' && newR === goalPos.row && newC === goalPos.col) {
+      const algoAtGoal = algoFinished && !algoTrace.exhausted;
+      finishRace(algoAtGoal ? 'ALGORITHM' : 'PLAYER', playerSteps + 1, playerCost + Algorithms.getStepCost(playerPos, nextPos, gridMap));
+    }
+  }, [gameStatus, playerPos, playerPath, playerSteps, playerCost, gridMap, goalPos, algoFinished, algoTrace, raceMode, finishRace, startTime, algoStepIndex, announce]);
+
+  const moveInDirection = useCallback((direction: MoveDirection) => {
+    const nextPos = stepInDirection(playerPos, direction, movement.topology);
+    if (nextPos) movePlayer(nextPos);
+    else if (gameStatus === 'PLAYING') announce("That move isn't available on this board.");
+  }, [playerPos, movement, movePlayer, gameStatus, announce]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (gameStatus !== 'PLAYING') return;
-
-      let dRow = 0;
-      let dCol = 0;
-      if (e.key === 'ArrowUp' || e.key === 'w') dRow = -1;
-      else if (e.key === 'ArrowDown' || e.key === 's') dRow = 1;
-      else if (e.key === 'ArrowLeft' || e.key === 'a') dCol = -1;
-      else if (e.key === 'ArrowRight' || e.key === 'd') dCol = 1;
-      else return;
-
-      const newR = playerPos.row + dRow;
-      const newC = playerPos.col + dCol;
-
-      if (newR >= 0 && newR < dimensions.rows && newC >= 0 && newC < dimensions.cols) {
-        const nextPos = { row: newR, col: newC };
-        setPlayerPos(nextPos);
-        setPlayerSteps(prev => prev + 1);
-        
-        setPlayerPath(prev => {
-          const nextSet = new Set(prev);
-          nextSet.add(`${newR},${newC}`);
-          return nextSet;
-        });
-
-        if (newR === goalPos.row && newC === goalPos.col) {
-            // Check win inside the event loop for instant feedback
-             if (algoFinished) setWinner('ALGORITHM');
-             else setWinner('PLAYER');
-             setGameStatus('FINISHED');
-        }
-      }
+      const direction = KEY_MOVES[e.key];
+      if (direction) moveInDirection(direction);
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameStatus, playerPos, dimensions, goalPos, algoFinished]);
+  }, [moveInDirection]);
 
+  // Notice which kind of input is in use, for the instructions
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => setInputMethod(e.pointerType === 'touch' ? 'TOUCH' : 'KEYBOARD');
+    const handleKeyDown = () => setInputMethod('KEYBOARD');
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
 
-  // --- Helper: Get Current Algo Snapshot ---
-  const currentAlgoStep = algoHistory[algoStepIndex] || { 
-    visited: new Set(), 
-    frontier: new Set(), 
-    path: [] 
+  // Swipes on the player board step towards the swipe; a tap on a neighbouring cell steps onto it.
+  // The cell handler runs before the board's (events bubble up), so the board sees which cell was pressed.
+  const handleCellPress = useCallback((cell: Coordinate) => {
+    pressedCellRef.current = cell;
+  }, []);
+
+  const handleBoardPointerDown = (e: React.PointerEvent) => {
+    swipeRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const cancelBoardPress = () => {
+    swipeRef.current = null;
+    pressedCellRef.current = null;
   };
+
+  const handleBoardPointerUp = (e: React.PointerEvent) => {
+    const swipe = swipeRef.current;
+    const cell = pressedCellRef.current;
+    cancelBoardPress();
+    if (!swipe) return;
+    const dx = e.clientX - swipe.x;
+    const dy = e.clientY - swipe.y;
+    if (Math.hypot(dx, dy) >= SWIPE_MIN_DISTANCE) {
+      // Same angle convention as getBearing: clockwise from straight up
+      const bearing = (Math.atan2(dx, -dy) + 2 * Math.PI) % (2 * Math.PI);
+      moveInDirection(getDirectionTowards(playerPos, bearing, movement.topology));
+    } else if (cell) {
+      movePlayer(cell);
+    }
+  };
+
+  // --- Helper: Get Current Algo Snapshot ---
+  // While the map is still being drawn, the opponent board stays blank
+  const currentAlgoStep = useMemo<AlgoStep>(() => (
+    gameStatus !== 'GENERATING' && traceLength > 0
+      ? algoTrace.getStep(algoStepIndex)
+      : { visited: new Set(), frontier: new Set(), path: [] }
+  ), [algoTrace, traceLength, algoStepIndex, gameStatus]);
+
+  // Heatmap overlay on the algorithm board; h and f wait for the goal to be revealed
+  const heatmapTypes = getHeatmapTypes(selectedAlgo, gameStatus === 'FINISHED' && !blindMode);
+  const activeHeatmap = heatmapType && heatmapTypes.includes(heatmapType) ? heatmapType : null;
+  const overlayHeuristic = getOverlayHeuristic(selectedAlgo, heuristic);
+  const needsEstimates = activeHeatmap === 'H' || activeHeatmap === 'F';
+  const estimates = useMemo(
+    () => needsEstimates ? getEstimates(gridMap, goalPos, overlayHeuristic) : new Map<string, number>(),
+    [needsEstimates, gridMap, goalPos, overlayHeuristic]
+  );
+  const heatmap = useMemo(
+    () => activeHeatmap ? getHeatmap(activeHeatmap, currentAlgoStep, estimates, overlayHeuristic.weight, heatmapNumbers) : undefined,
+    [activeHeatmap, currentAlgoStep, estimates, overlayHeuristic, heatmapNumbers]
+  );
   
   // Calculate final results for display
-  // We search the history for the step containing the path. 
-  // In DFS (and potentially others), the step with the path might not be the absolute last step 
-  // due to backtracking visualization frames pushed after finding the goal.
-  const stepWithPath = algoHistory.find(s => s.path && s.path.length > 0);
+  // The trace remembers which step carries the final path, so no step needs to be rebuilt here.
+  const algoPath = algoTrace.path;
+  const algoExhausted = algoTrace.exhausted;
   const showAlgoStats = gameStatus === 'FINISHED' || algoFinished || winner === 'ALGORITHM';
   
   // Path length is nodes - 1 (edges/steps). If path is empty or 1 node, steps are 0.
-  const algoPathLength = showAlgoStats && stepWithPath 
-    ? Math.max(0, stepWithPath.path!.length - 1)
+  const algoPathLength = showAlgoStats && algoPath 
+    ? Math.max(0, algoPath.length - 1)
+    : showAlgoStats && algoExhausted ? (algoTrace.gaveUp ? 'Gave up' : 'No path') : 'N/A';
+  const algoPathCost = showAlgoStats && algoPath
+    ? formatCost(Algorithms.getPathCost(algoPath, gridMap))
     : 'N/A';
 
+  // Optimality check: compare against Dijkstra/BFS on the same board once the race is over
+  const baseline = useMemo(
+    () => gameStatus === 'FINISHED' ? Algorithms.getBaseline(gridMap, startPos, goalPos) : null,
+    [gameStatus, gridMap, startPos, goalPos]
+  );
+  const algoVisitedTotal = useMemo(() => {
+    if (!searchDone || traceLength === 0) return null;
+    const last = algoTrace.getStep(traceLength - 1);
+    return last.visited.size + (last.backwardVisited?.size ?? 0);
+  }, [algoTrace, traceLength, searchDone]);
+  const algoOverCost = baseline && algoPath ? Algorithms.getPathCost(algoPath, gridMap) - baseline.cost : null;
+  const aStarMayOverestimate = heuristic.weight > 1 || !Algorithms.isHeuristicAdmissible(heuristic, gridMap);
+
+  // In blind mode the goal-seeking algorithms ran their exploring fallback instead
+  const blindFallback = blindMode ? BLIND_FALLBACKS[selectedAlgo] : undefined;
+
   // Convert Algo Path array to Set for O(1) rendering
   const algoPathSet = new Set<string>();
   if (currentAlgoStep.path) {
@@ -213,7 +867,23 @@ const App: React.FC = () => {
 
   // --- Render ---
   return (
-    <div className="min-h-screen bg-slate-50 text-slate-900 font-sans selection:bg-indigo-100">
+    <div className={`min-h-screen bg-slate-50 text-slate-900 font-sans selection:bg-indigo-100 ${reducedMotion ? 'reduce-motion' : ''}`}>
+      {/* Screen reader announcements: moves, blocked moves and results */}
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        <p key={announcement.id}>{announcement.text}</p>
+      </div>
+      {/* Shared by the Import buttons in the setup panel and the results modal */}
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importGame(file);
+          e.target.value = ''; // Picking the same file again still fires onChange
+        }}
+      />
       
       {/* Header / Stats Bar */}
       <header className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-b border-slate-200 shadow-sm">
@@ -233,18 +903,42 @@ const App: React.FC = () => {
             <div className="flex items-center gap-8 text-sm font-medium">
               <div className="flex flex-col items-center">
                 <span className="text-slate-400 text-xs uppercase tracking-wider">Player Steps</span>
-                <span className="text-xl font-mono text-blue-600">{playerSteps}</span>
+                <span className="text-xl font-mono text-blue-600">{replaying ? replayPlayer.steps : playerSteps}</span>
+              </div>
+              <div className="flex flex-col items-center">
+                <span className="text-slate-400 text-xs uppercase tracking-wider">Player Cost</span>
+                <span className="text-xl font-mono text-blue-600">{formatCost(replaying ? replayPlayer.cost : playerCost)}</span>
               </div>
               <div className="flex flex-col items-center">
-                <span className="text-slate-400 text-xs uppercase tracking-wider">Time</span>
-                <span className="text-xl font-mono">{elapsedTime.toFixed(1)}s</span>
+                <span className="text-slate-400 text-xs uppercase tracking-wider">{raceMode === 'TURNS' ? 'Algo Ticks' : 'Time'}</span>
+                <span className="text-xl font-mono">{raceMode === 'TURNS' ? algoStepIndex : `${elapsedTime.toFixed(1)}s`}</span>
               </div>
               <div className="flex flex-col items-center">
                 <span className="text-slate-400 text-xs uppercase tracking-wider">Algo Nodes</span>
-                <span className="text-xl font-mono text-purple-600">{currentAlgoStep.visited.size}</span>
+                <span className="text-xl font-mono text-purple-600">{currentAlgoStep.visited.size + (currentAlgoStep.backwardVisited?.size ?? 0)}</span>
               </div>
             </div>
 
+            <button
+              onClick={() => setShowAccessibility(s => !s)}
+              title="Colours, patterns and motion"
+              aria-expanded={showAccessibility}
+              aria-controls="accessibility-panel"
+              className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold transition-colors ${showAccessibility ? 'bg-sky-100 text-sky-800' : 'bg-sky-50 hover:bg-sky-100 text-sky-700'}`}
+            >
+              <Accessibility size={18} /> Accessibility
+            </button>
+
+            {(gameStatus === 'SETUP' || gameStatus === 'FINISHED') && (
+              <button 
+                onClick={() => setShowHistory(true)}
+                title="Match history and leaderboard"
+                className="flex items-center gap-2 bg-amber-50 hover:bg-amber-100 text-amber-700 px-4 py-2 rounded-full font-bold transition-colors"
+              >
+                <Trophy size={18} /> History
+              </button>
+            )}
+
             {gameStatus === 'SETUP' && (
               <button 
                 onClick={startGame}
@@ -253,8 +947,28 @@ const App: React.FC = () => {
                 <Play size={18} /> Start
               </button>
             )}
+
+            {gameStatus === 'SETUP' && (
+              <button 
+                onClick={() => setGameStatus('COMPARING')}
+                title="Run several algorithms side by side on one board"
+                className="flex items-center gap-2 bg-purple-50 hover:bg-purple-100 text-purple-700 px-4 py-2 rounded-full font-bold transition-colors"
+              >
+                <GitCompare size={18} /> Compare
+              </button>
+            )}
+
+            {gameStatus === 'SETUP' && (
+              <button 
+                onClick={() => setGameStatus('VERSUS')}
+                title="Two players on one keyboard, with the algorithm as an optional third racer"
+                className="flex items-center gap-2 bg-emerald-50 hover:bg-emerald-100 text-emerald-700 px-4 py-2 rounded-full font-bold transition-colors"
+              >
+                <Users size={18} /> Versus
+              </button>
+            )}
             
-            {(gameStatus === 'PLAYING' || gameStatus === 'FINISHED') && (
+            {inGame && (
               <button 
                 onClick={() => setGameStatus('SETUP')}
                 className="flex items-center gap-2 bg-slate-200 hover:bg-slate-300 text-slate-700 px-4 py-2 rounded-full font-bold transition-colors"
@@ -264,6 +978,42 @@ const App: React.FC = () => {
             )}
 
           </div>
+
+          {showAccessibility && (
+            <div id="accessibility-panel" className="mt-3 pt-3 border-t border-slate-200 flex flex-wrap items-end gap-4 text-sm">
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase">Colours</span>
+                <select
+                  className="mt-1 block p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                  value={accessibility.palette}
+                  onChange={(e) => updateAccessibility({ palette: e.target.value as PaletteName })}
+                >
+                  {(Object.keys(PALETTES) as PaletteName[]).map(p => <option key={p} value={p}>{PALETTES[p].label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 pb-2">
+                <input
+                  type="checkbox"
+                  checked={accessibility.patterns}
+                  onChange={(e) => updateAccessibility({ patterns: e.target.checked })}
+                />
+                Mark path, frontier and visited cells with symbols
+              </label>
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase">Motion</span>
+                <select
+                  className="mt-1 block p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                  value={accessibility.motion}
+                  onChange={(e) => updateAccessibility({ motion: e.target.value as MotionPreference })}
+                >
+                  {(Object.keys(MOTION_LABELS) as MotionPreference[]).map(m => <option key={m} value={m}>{MOTION_LABELS[m]}</option>)}
+                </select>
+              </label>
+              {accessibility.motion === 'SYSTEM' && (
+                <span className="text-xs text-slate-500 pb-2">Your system {systemReducedMotion ? 'asks for' : "doesn't ask for"} reduced motion.</span>
+              )}
+            </div>
+          )}
         </div>
       </header>
 
@@ -279,39 +1029,221 @@ const App: React.FC = () => {
              
              <div className="grid md:grid-cols-2 gap-8">
                <div className="space-y-4">
+                 {authoredMap ? (
+                   <div className="p-4 bg-indigo-50 border border-indigo-100 rounded-xl space-y-3">
+                     <p className="text-sm text-indigo-900">
+                       <b>Custom map</b> ({authoredMap.rows} x {authoredMap.cols}) from the editor will be used for the next race.
+                     </p>
+                     <div className="flex gap-2">
+                       <button
+                         onClick={openEditor}
+                         className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+                       >
+                         <Brush size={16} /> Edit Map
+                       </button>
+                       <button
+                         onClick={() => setAuthoredMap(null)}
+                         className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-white border border-slate-200 hover:bg-slate-100 text-slate-600 transition-colors"
+                       >
+                         <Trash2 size={16} /> Discard
+                       </button>
+                     </div>
+                   </div>
+                 ) : (
+                   <>
+                     <label className="block">
+                       <span className="text-sm font-bold text-slate-700">Grid Size</span>
+                       <div className="flex gap-4 mt-2">
+                         <input 
+                           type="number"
+                           min={GRID_SIZE_LIMITS.min}
+                           max={GRID_SIZE_LIMITS.max}
+                           className="p-2 bg-slate-50 border border-slate-300 rounded-lg flex-1 min-w-0"
+                           value={dimensions.rows}
+                           onChange={(e) => setDimensions(d => ({...d, rows: Number(e.target.value)}))}
+                           onBlur={() => setDimensions(d => ({...d, rows: clampGridSize(d.rows)}))}
+                         />
+                         <span className="self-center font-mono text-slate-400">x</span>
+                         <input 
+                           type="number"
+                           min={GRID_SIZE_LIMITS.min}
+                           max={GRID_SIZE_LIMITS.max}
+                           className="p-2 bg-slate-50 border border-slate-300 rounded-lg flex-1 min-w-0"
+                           value={dimensions.cols}
+                           onChange={(e) => setDimensions(d => ({...d, cols: Number(e.target.value)}))}
+                           onBlur={() => setDimensions(d => ({...d, cols: clampGridSize(d.cols)}))}
+                         />
+                       </div>
+                     </label>
+
+                     <label className="block">
+                       <span className="text-sm font-bold text-slate-700">Map Type</span>
+                       <select 
+                         className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                         value={mapType}
+                         onChange={(e) => setMapType(e.target.value as MapType)}
+                       >
+                         {(Object.keys(MAP_LABELS) as MapType[]).map(type => (
+                           <option key={type} value={type}>{MAP_LABELS[type]}</option>
+                         ))}
+                       </select>
+                     </label>
+
+                     <label className="block">
+                       <span className="text-sm font-bold text-slate-700">Terrain</span>
+                       <select 
+                         className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                         value={mixedTerrain ? 'Mixed' : 'Plain'}
+                         onChange={(e) => setMixedTerrain(e.target.value === 'Mixed')}
+                       >
+                         <option value="Plain">Plain (every step costs 1)</option>
+                         <option value="Mixed">Mixed (road, mud, water)</option>
+                       </select>
+                     </label>
+
+                     <label className="block">
+                       <span className="text-sm font-bold text-slate-700">Seed</span>
+                       <input
+                         type="text"
+                         inputMode="numeric"
+                         placeholder="Random"
+                         className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg font-mono"
+                         value={seedInput}
+                         onChange={(e) => setSeedInput(e.target.value)}
+                       />
+                       <span className="text-xs text-slate-500">
+                         {seedInput.trim() === '' || parseSeed(seedInput) !== null
+                           ? "The same seed and settings always build the same board."
+                           : "Not a whole number from 0 to 4294967295, so a random seed will be used."}
+                       </span>
+                     </label>
+
+                     <button
+                       onClick={openEditor}
+                       className="w-full flex items-center justify-center gap-2 p-2 rounded-lg text-sm font-bold border border-dashed border-slate-300 hover:border-indigo-400 hover:text-indigo-700 text-slate-600 transition-colors"
+                     >
+                       <Brush size={16} /> Open Map Editor
+                     </button>
+                   </>
+                 )}
+
+                 <div className="block">
+                   <span className="text-sm font-bold text-slate-700">Challenge Code</span>
+                   <div className="flex gap-2 mt-2">
+                     <input
+                       type="text"
+                       placeholder="Paste a code or link"
+                       className="p-2 bg-slate-50 border border-slate-300 rounded-lg flex-1 min-w-0 font-mono text-sm"
+                       value={challengeInput}
+                       onChange={(e) => { setChallengeInput(e.target.value); setChallengeError(null); }}
+                       onKeyDown={(e) => { if (e.key === 'Enter') loadChallenge(); }}
+                     />
+                     <button
+                       onClick={loadChallenge}
+                       disabled={challengeInput.trim() === ''}
+                       className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white transition-colors"
+                     >
+                       <Hash size={16} /> Load
+                     </button>
+                   </div>
+                   {challengeError && <p className="text-xs text-red-600 mt-1">{challengeError}</p>}
+                   <button
+                     onClick={() => importInputRef.current?.click()}
+                     className="mt-2 flex items-center gap-2 text-sm font-bold text-slate-600 hover:text-indigo-700 transition-colors"
+                   >
+                     <Upload size={16} /> Import a recorded game
+                   </button>
+                   {importError && <p className="text-xs text-red-600 mt-1">{importError}</p>}
+                 </div>
+
+                 <label className="block">
+                   <span className="text-sm font-bold text-slate-700">Movement</span>
+                   <select 
+                     className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                     value={movement.topology}
+                     onChange={(e) => changeTopology(e.target.value as Topology)}
+                   >
+                     {(Object.keys(TOPOLOGY_LABELS) as Topology[]).map(t => (
+                       <option key={t} value={t}>{TOPOLOGY_LABELS[t]}</option>
+                     ))}
+                   </select>
+                 </label>
+
+                 {movement.topology === 'Square8' && (
+                   <div className="space-y-2 pl-3 border-l-2 border-slate-200">
+                     <label className="block">
+                       <span className="text-xs font-bold text-slate-500 uppercase">Diagonal Cost</span>
+                       <select 
+                         className="mt-1 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm"
+                         value={movement.diagonalCost}
+                         onChange={(e) => setMovement(m => ({ ...m, diagonalCost: Number(e.target.value) }))}
+                       >
+                         <option value={1}>1 (same as a straight move)</option>
+                         <option value={Math.SQRT2}>√2 (true distance)</option>
+                       </select>
+                     </label>
+                     <label className="flex items-center gap-2 text-sm text-slate-600">
+                       <input
+                         type="checkbox"
+                         className="accent-indigo-600"
+                         checked={movement.cutCorners}
+                         onChange={(e) => setMovement(m => ({ ...m, cutCorners: e.target.checked }))}
+                       />
+                       Allow cutting corners past walls
+                     </label>
+                   </div>
+                 )}
+
                  <label className="block">
-                   <span className="text-sm font-bold text-slate-700">Grid Size</span>
-                   <div className="flex gap-4 mt-2">
+                   <span className="text-sm font-bold text-slate-700">Race Mode</span>
+                   <select 
+                     className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                     value={raceMode}
+                     onChange={(e) => setRaceMode(e.target.value as RaceMode)}
+                   >
+                     <option value="REALTIME">Real time (the opponent runs on a clock)</option>
+                     <option value="TURNS">Turn-based (the opponent moves when you do)</option>
+                   </select>
+                 </label>
+
+                 {raceMode === 'REALTIME' ? (
+                   <label className="block">
+                     <span className="text-sm font-bold text-slate-700">Opponent Speed</span>
                      <select 
-                       className="p-2 bg-slate-50 border border-slate-300 rounded-lg flex-1"
-                       value={dimensions.rows}
-                       onChange={(e) => setDimensions(d => ({...d, rows: Number(e.target.value)}))}
+                       className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                       value={raceSpeed}
+                       onChange={(e) => setRaceSpeed(Number(e.target.value))}
                      >
-                        <option value={10}>Small (10 rows)</option>
-                        <option value={15}>Medium (15 rows)</option>
-                        <option value={20}>Large (20 rows)</option>
+                       {PLAYBACK_SPEEDS.map(speed => (
+                         <option key={speed} value={speed}>{speed}x ({speed * 1000 / BASE_TICK_MS} steps/s)</option>
+                       ))}
                      </select>
-                     <span className="self-center font-mono text-slate-400">x</span>
+                   </label>
+                 ) : (
+                   <label className="block">
+                     <span className="text-sm font-bold text-slate-700">Opponent Steps per Move</span>
                      <select 
-                       className="p-2 bg-slate-50 border border-slate-300 rounded-lg flex-1"
-                       value={dimensions.cols}
-                       onChange={(e) => setDimensions(d => ({...d, cols: Number(e.target.value)}))}
+                       className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                       value={expansionsPerMove}
+                       onChange={(e) => setExpansionsPerMove(Number(e.target.value))}
                      >
-                        <option value={10}>Small (10 cols)</option>
-                        <option value={20}>Medium (20 cols)</option>
-                        <option value={25}>Large (25 cols)</option>
+                       {EXPANSIONS_PER_MOVE.map(n => (
+                         <option key={n} value={n}>{n} {n === 1 ? 'step' : 'steps'} for each of your moves</option>
+                       ))}
                      </select>
-                   </div>
-                 </label>
+                   </label>
+                 )}
 
                  <label className="block">
                    <span className="text-sm font-bold text-slate-700">Select Opponent Algorithm</span>
-                   <div className="grid grid-cols-2 gap-2 mt-2">
-                     {(['BFS', 'DFS', 'Dijkstra', 'A*'] as AlgorithmType[]).map(algo => (
+                   <div className="grid grid-cols-3 gap-2 mt-2">
+                     {ALGORITHMS.map(algo => (
                        <button
                          key={algo}
                          onClick={() => setSelectedAlgo(algo)}
-                         className={`p-3 rounded-lg text-sm font-bold border transition-all text-left ${
+                         disabled={algo === 'JPS' && movement.topology !== 'Square4'}
+                         title={algo === 'JPS' && movement.topology !== 'Square4' ? "Jump Point Search is only available with 4-way movement" : undefined}
+                         className={`p-3 rounded-lg text-sm font-bold border transition-all text-left disabled:opacity-40 disabled:cursor-not-allowed ${
                            selectedAlgo === algo 
                              ? 'bg-indigo-50 border-indigo-500 text-indigo-700 ring-2 ring-indigo-200' 
                              : 'bg-white border-slate-200 hover:border-slate-300 text-slate-600'
@@ -322,6 +1254,98 @@ const App: React.FC = () => {
                      ))}
                    </div>
                  </label>
+
+                 <label className="block">
+                   <span className="text-sm font-bold text-slate-700">Algorithm Knowledge</span>
+                   <select 
+                     className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                     value={blindMode ? 'Blind' : 'Full'}
+                     onChange={(e) => setBlindMode(e.target.value === 'Blind')}
+                   >
+                     <option value="Full">Full (knows where the goal is)</option>
+                     <option value="Blind">Blind (finds the goal by stepping on it, like you)</option>
+                   </select>
+                 </label>
+
+                 {selectedAlgo === 'A*' && !blindMode && (
+                   <div className="space-y-2 pl-3 border-l-2 border-slate-200">
+                     <label className="block">
+                       <span className="text-xs font-bold text-slate-500 uppercase">Heuristic</span>
+                       <select 
+                         className="mt-1 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm"
+                         value={heuristic.type}
+                         onChange={(e) => setHeuristic(h => ({ ...h, type: e.target.value as HeuristicType }))}
+                       >
+                         {(Object.keys(HEURISTIC_LABELS) as HeuristicType[]).map(type => (
+                           <option key={type} value={type}>
+                             {HEURISTIC_LABELS[type]}{type === 'Matched' ? ` (${getDistanceName(movement)})` : ''}
+                           </option>
+                         ))}
+                       </select>
+                     </label>
+                     <div className="flex gap-2">
+                       {heuristic.type === 'Overestimate' && (
+                         <label className="block flex-1">
+                           <span className="text-xs font-bold text-slate-500 uppercase">Factor k</span>
+                           <select 
+                             className="mt-1 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm"
+                             value={heuristic.overestimate}
+                             onChange={(e) => setHeuristic(h => ({ ...h, overestimate: Number(e.target.value) }))}
+                           >
+                             {OVERESTIMATE_FACTORS.map(k => <option key={k} value={k}>× {k}</option>)}
+                           </select>
+                         </label>
+                       )}
+                       <label className="block flex-1">
+                         <span className="text-xs font-bold text-slate-500 uppercase">Weight ε</span>
+                         <select 
+                           className="mt-1 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm"
+                           value={heuristic.weight}
+                           onChange={(e) => setHeuristic(h => ({ ...h, weight: Number(e.target.value) }))}
+                         >
+                           {HEURISTIC_WEIGHTS.map(w => <option key={w} value={w}>{w === 1 ? '1 (plain A*)' : w}</option>)}
+                         </select>
+                       </label>
+                     </div>
+                     {aStarMayOverestimate && (
+                       <p className="text-xs text-amber-700 flex items-center gap-1">
+                         <AlertTriangle size={12} /> This setup can overestimate, so A* may settle for a costlier path.
+                       </p>
+                     )}
+                   </div>
+                 )}
+
+                 {PRIORITY_QUEUE_ALGOS.includes(selectedAlgo) && !(blindMode && selectedAlgo === 'Greedy') && (
+                   <label className="block">
+                     <span className="text-sm font-bold text-slate-700">Tie-breaking</span>
+                     <select
+                       className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                       value={tieBreak}
+                       onChange={(e) => setTieBreak(e.target.value as TieBreak)}
+                     >
+                       {(Object.keys(TIE_BREAK_LABELS) as TieBreak[]).map(t => <option key={t} value={t}>{TIE_BREAK_LABELS[t]}</option>)}
+                     </select>
+                     <span className="block mt-1 text-xs text-slate-500">Which of several equally good frontier cells is expanded first.</span>
+                   </label>
+                 )}
+
+                 <label className="block">
+                   <span className="text-sm font-bold text-slate-700">Neighbour order</span>
+                   <select
+                     className="mt-2 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                     value={blindMode && neighborOrder === 'GOAL_BIASED' ? DEFAULT_NEIGHBOR_ORDER : neighborOrder}
+                     onChange={(e) => setNeighborOrder(e.target.value as NeighborOrder)}
+                   >
+                     {(Object.keys(NEIGHBOR_ORDER_LABELS) as NeighborOrder[])
+                       .filter(o => !(blindMode && o === 'GOAL_BIASED'))
+                       .map(o => <option key={o} value={o}>{NEIGHBOR_ORDER_LABELS[o]}</option>)}
+                   </select>
+                   <span className="block mt-1 text-xs text-slate-500">The order each cell's neighbours are tried in. DFS follows it most visibly.</span>
+                 </label>
+
+                 {setupError && (
+                   <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3">{setupError}</p>
+                 )}
                </div>
 
                <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
@@ -331,12 +1355,38 @@ const App: React.FC = () => {
                  <p className="text-sm text-slate-600 leading-relaxed">
                    {ALGO_DESCRIPTIONS[selectedAlgo]}
                  </p>
+                 {blindFallback && (
+                   <p className="text-xs text-slate-500 mt-2 flex items-start gap-1">
+                     <EyeOff size={12} className="mt-0.5 shrink-0" /> {blindFallback}
+                   </p>
+                 )}
+                 {HEURISTIC_ALGOS.includes(selectedAlgo) && !blindMode && (
+                   <p className="text-xs text-slate-500 mt-2">
+                     Heuristic for {TOPOLOGY_LABELS[movement.topology].split(' (')[0]} movement: <b>{getDistanceName(movement)}</b> distance.
+                   </p>
+                 )}
                  <div className="mt-4 pt-4 border-t border-slate-200">
                     <p className="text-xs font-bold text-slate-500 uppercase mb-2">How to Play</p>
                     <ul className="text-sm text-slate-600 space-y-1 list-disc pl-4">
-                      <li>Use <b>WASD</b> or <b>Arrow Keys</b> to move the blue player.</li>
-                      <li>Find the hidden red flag before the algorithm does.</li>
-                      <li>Start position is top-left (0,0).</li>
+                      {inputMethod === 'TOUCH' ? (
+                        <li>Swipe on your board to move your player (the person icon), tap a neighbouring cell to step onto it, or use the on-screen <b>D-pad</b>.</li>
+                      ) : movement.topology === 'Hex' ? (
+                        <li>Use <b>A</b>/<b>D</b> to move left and right, <b>Q</b>/<b>E</b> for up-left and up-right, and <b>Z</b>/<b>C</b> for down-left and down-right.</li>
+                      ) : (
+                        <li>Use <b>WASD</b> or <b>Arrow Keys</b> to move your player (the person icon).</li>
+                      )}
+                      {inputMethod === 'KEYBOARD' && movement.topology === 'Square8' && (
+                        <li>Move diagonally with <b>Q</b>, <b>E</b>, <b>Z</b> and <b>C</b>{movement.cutCorners ? '' : ', but not around the corner of a wall'}.</li>
+                      )}
+                      {inputMethod === 'TOUCH' && movement.topology !== 'Square4' && (
+                        <li>Swipe at an angle to move diagonally{movement.topology === 'Square8' && !movement.cutCorners ? ', but not around the corner of a wall' : ''}.</li>
+                      )}
+                      <li>Find the hidden flag before the algorithm does.</li>
+                      {raceMode === 'TURNS' && (
+                        <li>Turn-based: the opponent takes {expansionsPerMove} {expansionsPerMove === 1 ? 'step' : 'steps'} each time you move. Arriving on the same turn is a draw.</li>
+                      )}
+                      <li>Start on the <b>S</b> cell. Dark cells are walls.</li>
+                      <li>Roads are cheap, mud and water are expensive: the lowest total cost wins bragging rights.</li>
                     </ul>
                  </div>
                </div>
@@ -344,8 +1394,49 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Map Editor */}
+        {gameStatus === 'EDITING' && (
+          <MapEditor
+            initialMap={editorInitialMap}
+            mapType={mapType}
+            mapTypeLabel={MAP_LABELS[mapType]}
+            movement={movement}
+            onSave={saveAuthoredMap}
+            onCancel={() => setGameStatus('SETUP')}
+          />
+        )}
+
+        {/* Compare Mode */}
+        {gameStatus === 'COMPARING' && (
+          <CompareView
+            algorithms={ALGORITHMS}
+            initialSelection={ALGORITHMS.filter(a => (a === selectedAlgo || COMPARE_DEFAULTS.includes(a)) && (a !== 'JPS' || movement.topology === 'Square4'))}
+            settings={{ dims: dimensions, mapType, mixedTerrain, movement }}
+            authoredMap={authoredMap}
+            seedInput={seedInput}
+            options={{ heuristic, tieBreak, neighborOrder, blind: blindMode }}
+            palette={palette}
+            patterns={accessibility.patterns}
+            onExit={() => setGameStatus('SETUP')}
+          />
+        )}
+
+        {gameStatus === 'VERSUS' && (
+          <VersusView
+            algorithm={selectedAlgo}
+            settings={{ dims: dimensions, mapType, mixedTerrain, movement }}
+            authoredMap={authoredMap}
+            seedInput={seedInput}
+            options={{ heuristic, tieBreak, neighborOrder, blind: blindMode }}
+            raceSpeed={raceSpeed}
+            palette={palette}
+            patterns={accessibility.patterns}
+            onExit={() => setGameStatus('SETUP')}
+          />
+        )}
+
         {/* Game Area */}
-        {gameStatus !== 'SETUP' && (
+        {inGame && (
           <div className="grid lg:grid-cols-2 gap-8">
             
             {/* Player View */}
@@ -354,36 +1445,77 @@ const App: React.FC = () => {
                 <h3 className="font-bold text-blue-700 flex items-center gap-2">
                   <User size={18} /> You (Human)
                 </h3>
-                <span className="text-xs text-slate-500">Goal Hidden</span>
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <button
+                    onClick={() => setShowDPad(s => !s)}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded font-bold transition-colors ${showDPad ? 'bg-blue-100 text-blue-700' : 'hover:bg-slate-100'}`}
+                  >
+                    <Gamepad2 size={14} /> D-pad
+                  </button>
+                  <span>Goal Hidden</span>
+                </div>
               </div>
-              <div className="relative group">
-                <Grid
+              <div
+                className="relative group"
+                style={{ touchAction: gameStatus === 'PLAYING' ? 'none' : undefined }} // Swipes move the player instead of scrolling
+                onPointerDown={gameStatus === 'PLAYING' ? handleBoardPointerDown : undefined}
+                onPointerUp={gameStatus === 'PLAYING' ? handleBoardPointerUp : undefined}
+                onPointerCancel={cancelBoardPress}
+              >
+                <BoardGrid
                   dimensions={dimensions}
-                  playerPos={playerPos}
+                  playerPos={replaying ? replayPlayer.pos : playerPos}
                   startPos={startPos}
                   goalPos={goalPos}
                   isPlayerGrid={true}
-                  visited={playerPath} // Player visited
+                  visited={replaying ? replayPlayer.path : playerPath} // Player visited
                   frontier={new Set()}
                   path={new Set()}
+                  walls={walls}
+                  terrain={terrain}
+                  topology={movement.topology}
                   revealGoal={gameStatus === 'FINISHED'}
+                  palette={palette}
+                  patterns={accessibility.patterns}
+                  label="Your board"
+                  onCellPointerDown={gameStatus === 'PLAYING' ? handleCellPress : undefined}
                 />
-                {/* Mobile controls overlay hints could go here */}
+                {inputMethod === 'TOUCH' && gameStatus === 'PLAYING' && playerSteps === 0 && (
+                  <div className="absolute inset-x-0 bottom-2 flex justify-center pointer-events-none">
+                    <span className="px-3 py-1 rounded-full bg-slate-900/70 text-white text-xs">Swipe, or tap a cell next to you, to move</span>
+                  </div>
+                )}
               </div>
+              {showDPad && gameStatus !== 'FINISHED' && (
+                <DPad topology={movement.topology} disabled={gameStatus !== 'PLAYING'} onMove={moveInDirection} />
+              )}
+              {terrain.size > 0 && (
+                <div className="flex flex-wrap gap-3 px-1 text-xs text-slate-500">
+                  {Object.values(TerrainType).map(t => (
+                    <div key={t} className="flex items-center gap-1">
+                      <div className={`w-3 h-3 rounded-sm border border-slate-300 ${TERRAIN_STYLES[t].base}`}></div>
+                      {t.charAt(0) + t.slice(1).toLowerCase()} ({formatCost(TERRAIN_COSTS[t])})
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Algorithm View */}
             <div className="space-y-2">
               <div className="flex justify-between items-end px-1">
                 <h3 className="font-bold text-purple-700 flex items-center gap-2">
-                  <Bot size={18} /> Opponent ({selectedAlgo})
+                  <Bot size={18} /> Opponent ({selectedAlgo}{blindMode ? ', blind' : ''})
                 </h3>
                 <span className="text-xs text-slate-500">
-                  {algoFinished ? "Finished" : "Computing..."}
+                  {gameStatus === 'GENERATING'
+                    ? "Generating map..."
+                    : algoFinished ? (algoTrace.gaveUp ? "Gave up" : algoExhausted ? "No path" : "Finished")
+                    : searchDone ? "Computing..." : `Searching... (${traceLength} steps)`}
                 </span>
               </div>
               <div className="relative">
-                <Grid
+                <BoardGrid
                   dimensions={dimensions}
                   algoCurrent={currentAlgoStep.current}
                   startPos={startPos}
@@ -391,63 +1523,205 @@ const App: React.FC = () => {
                   isPlayerGrid={false}
                   visited={currentAlgoStep.visited}
                   frontier={currentAlgoStep.frontier}
+                  backwardVisited={currentAlgoStep.backwardVisited}
+                  backwardFrontier={currentAlgoStep.backwardFrontier}
                   path={algoPathSet}
+                  walls={walls}
+                  terrain={terrain}
+                  topology={movement.topology}
                   revealGoal={gameStatus === 'FINISHED'}
-                  recursionDepth={currentAlgoStep.depth}
+                  heatmap={heatmap}
+                  palette={palette}
+                  patterns={accessibility.patterns}
+                  label={`${selectedAlgo}'s board`}
                 />
                 {/* Legend Overlay */}
                 <div className="absolute top-2 right-2 bg-white/90 backdrop-blur text-[10px] p-2 rounded border border-slate-200 shadow-sm space-y-1 opacity-50 hover:opacity-100 transition-opacity">
-                   <div className="flex items-center gap-2"><div className="w-3 h-3 bg-purple-500 rounded-sm"></div> Current</div>
-                   <div className="flex items-center gap-2"><div className="w-3 h-3 bg-indigo-300 rounded-sm"></div> Frontier</div>
-                   <div className="flex items-center gap-2"><div className="w-3 h-3 bg-slate-200 rounded-sm"></div> Visited</div>
-                   <div className="flex items-center gap-2"><div className="w-3 h-3 bg-yellow-400 rounded-sm"></div> Path</div>
+                   <div className="flex items-center gap-2"><CellSwatch color={swatchColors.CURRENT} /> Current</div>
+                   <div className="flex items-center gap-2"><CellSwatch color={swatchColors.FRONTIER} glyph={accessibility.patterns ? PATTERN_GLYPHS.FRONTIER : undefined} /> Frontier</div>
+                   <div className="flex items-center gap-2"><CellSwatch color="#e2e8f0" glyph={accessibility.patterns ? PATTERN_GLYPHS.VISITED : undefined} /> Visited</div>
+                   {selectedAlgo === 'Bidirectional' && !blindMode && (
+                     <>
+                       <div className="flex items-center gap-2"><CellSwatch color={swatchColors.BACKWARD_FRONTIER} glyph={accessibility.patterns ? PATTERN_GLYPHS.BACKWARD_FRONTIER : undefined} /> Goal-side Frontier</div>
+                       <div className="flex items-center gap-2"><CellSwatch color={swatchColors.BACKWARD_VISITED} glyph={accessibility.patterns ? PATTERN_GLYPHS.BACKWARD_VISITED : undefined} /> Goal-side Visited</div>
+                     </>
+                   )}
+                   <div className="flex items-center gap-2"><CellSwatch color={swatchColors.PATH} glyph={accessibility.patterns ? PATTERN_GLYPHS.PATH : undefined} /> Path</div>
+                   <div className="flex items-center gap-2"><CellSwatch color="#334155" /> Wall</div>
                 </div>
               </div>
+
+              <div className="flex flex-wrap items-center gap-3 px-1 text-xs text-slate-500">
+                <label className="flex items-center gap-1.5">
+                  <Layers size={14} /> Overlay
+                  <select
+                    className="p-1 bg-slate-50 border border-slate-300 rounded"
+                    value={activeHeatmap ?? ''}
+                    onChange={(e) => setHeatmapType((e.target.value || null) as HeatmapType | null)}
+                  >
+                    <option value="">None</option>
+                    {heatmapTypes.map(t => <option key={t} value={t}>{HEATMAP_LABELS[t]}</option>)}
+                  </select>
+                </label>
+                {activeHeatmap && (
+                  <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="accent-indigo-600"
+                      checked={heatmapNumbers}
+                      onChange={(e) => setHeatmapNumbers(e.target.checked)}
+                    />
+                    Numbers
+                  </label>
+                )}
+                {gameStatus !== 'FINISHED' && !blindMode && <span>h-cost and f-score unlock when the race ends.</span>}
+                <button
+                  onClick={() => setShowInspector(s => !s)}
+                  className={`ml-auto flex items-center gap-1.5 px-2 py-1 rounded font-bold transition-colors ${showInspector ? 'bg-purple-100 text-purple-700' : 'hover:bg-slate-100'}`}
+                >
+                  <Code size={14} /> Pseudocode
+                </button>
+              </div>
+              {activeHeatmap && heatmap && (
+                <HeatmapLegend
+                  title={HEATMAP_LABELS[activeHeatmap]}
+                  heatmap={heatmap}
+                  note={activeHeatmap === 'DEPTH' && currentAlgoStep.depth !== undefined ? `Current depth: ${currentAlgoStep.depth}`
+                    : activeHeatmap === 'F' && overlayHeuristic.weight !== 1 ? `f = g + ${overlayHeuristic.weight}·h`
+                    : undefined}
+                />
+              )}
+
+              {gameStatus === 'FINISHED' && !showResults && (
+                <div className="space-y-2">
+                  <PlaybackControls
+                    index={replayIndex}
+                    length={replayLength}
+                    playing={replayPlaying}
+                    speed={replaySpeed}
+                    onTogglePlay={toggleReplay}
+                    onSeek={seekReplay}
+                    onSpeedChange={setReplaySpeed}
+                  />
+                  <button
+                    onClick={() => setShowResults(true)}
+                    className="w-full flex items-center justify-center gap-2 p-2 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+                  >
+                    <Award size={16} /> Show Results
+                  </button>
+                </div>
+              )}
             </div>
 
+            {showInspector && (
+              <div className="lg:col-span-2">
+                <AlgorithmInspector algorithm={selectedAlgo} blind={blindMode} step={currentAlgoStep} hideEstimates={gameStatus !== 'FINISHED' && !blindMode} />
+              </div>
+            )}
           </div>
         )}
 
         {/* Results Modal / Overlay */}
-        {gameStatus === 'FINISHED' && (
+        {gameStatus === 'FINISHED' && showResults && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-300">
-            <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
-              <div className={`p-6 text-center ${winner === 'PLAYER' ? 'bg-blue-600' : 'bg-purple-600'} text-white`}>
+            <div role="dialog" aria-modal="true" aria-labelledby="results-title" className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+              <div className={`p-6 text-center ${winner === 'PLAYER' ? 'bg-blue-600' : winner === 'DRAW' ? 'bg-slate-600' : 'bg-purple-600'} text-white`}>
                 <div className="inline-flex p-3 rounded-full bg-white/20 mb-4">
                    <Award size={48} />
                 </div>
-                <h2 className="text-3xl font-black uppercase tracking-wide">
-                  {winner === 'PLAYER' ? 'You Won!' : 'Algorithm Won!'}
+                <h2 id="results-title" className="text-3xl font-black uppercase tracking-wide">
+                  {winner === 'PLAYER' ? 'You Won!' : winner === 'DRAW' ? "It's a Draw!" : 'Algorithm Won!'}
                 </h2>
                 <p className="text-white/80 mt-1">
                   {winner === 'PLAYER' 
                     ? `Great job! You beat ${selectedAlgo} to the goal.` 
-                    : `${selectedAlgo} found the optimal path faster.`}
+                    : winner === 'DRAW'
+                      ? `You and ${selectedAlgo} reached the goal on the same turn.`
+                      : `${selectedAlgo} reached the goal first.`}
                 </p>
+                {result && (
+                  <p className="text-white/70 text-xs mt-2 font-mono">
+                    {result.mode === 'TURNS'
+                      ? `${result.playerSteps} moves vs ${result.algoTime} algorithm ticks (${expansionsPerMove} per move)`
+                      : `${result.playerTime.toFixed(1)}s · algorithm used ${result.algoTime} ticks, explored ${result.algoVisitedCount} cells`}
+                  </p>
+                )}
               </div>
 
               <div className="p-6">
+                {gameSeed !== null && !authoredMap && (
+                  <p className="text-xs text-slate-500 mb-1 flex items-center justify-center gap-1">
+                    <Hash size={12} /> Board seed <span className="font-mono font-bold">{gameSeed}</span>
+                  </p>
+                )}
+                <p className="text-xs text-slate-500 mb-4 flex items-center justify-center gap-1">
+                  {blindMode
+                    ? <><EyeOff size={12} /> Information model: <b>blind</b>. The algorithm only found the goal by stepping on it.</>
+                    : <><Eye size={12} /> Information model: <b>full</b>. The algorithm knew where the goal was from the start.</>}
+                </p>
                 <div className="grid grid-cols-2 gap-4 text-center mb-6">
                   <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
                     <h4 className="font-bold text-slate-500 text-xs uppercase mb-1">Your Path</h4>
                     <p className="text-2xl font-bold text-blue-600">{playerSteps} <span className="text-sm text-slate-400 font-normal">steps</span></p>
+                    <p className="text-sm text-slate-500 mt-1">Cost <span className="font-mono font-bold text-blue-600">{formatCost(playerCost)}</span></p>
                   </div>
                   <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
                     <h4 className="font-bold text-slate-500 text-xs uppercase mb-1">{selectedAlgo} Path</h4>
                     <p className="text-2xl font-bold text-purple-600">
-                      {algoPathLength} <span className="text-sm text-slate-400 font-normal">steps</span>
+                      {algoPathLength} {typeof algoPathLength === 'number' && <span className="text-sm text-slate-400 font-normal">steps</span>}
                     </p>
+                    <p className="text-sm text-slate-500 mt-1">Cost <span className="font-mono font-bold text-purple-600">{algoPathCost}</span></p>
                   </div>
                 </div>
 
+                {/* Optimality */}
+                {baseline && algoOverCost !== null && (
+                  <div className="bg-slate-50 border border-slate-200 p-4 rounded-lg mb-4 text-sm text-slate-700 space-y-1">
+                    <h5 className="font-bold flex items-center gap-2"><Scale size={14}/> Optimality</h5>
+                    <p>
+                      {algoOverCost < 1e-9
+                        ? <>The {selectedAlgo} path is <b className="text-emerald-700">optimal</b>: nothing beats its cost of {formatCost(baseline.cost)}.</>
+                        : <>The {selectedAlgo} path is <b className="text-red-700">not optimal</b>: it costs {formatCost(algoOverCost)} more than the cheapest route ({formatCost(baseline.cost)}).</>}
+                      {' '}Fewest possible steps: {baseline.steps}.
+                    </p>
+                    {algoVisitedTotal !== null && (
+                      <p>
+                        Explored {algoVisitedTotal} cells vs {baseline.visited} for Dijkstra
+                        {algoVisitedTotal <= baseline.visited
+                          ? <>: <b>{baseline.visited - algoVisitedTotal} saved</b>.</>
+                          : <>: {algoVisitedTotal - baseline.visited} more.</>}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Analysis */}
                 <div className="bg-amber-50 border border-amber-100 p-4 rounded-lg mb-6 text-sm text-amber-900">
                    <h5 className="font-bold mb-1 flex items-center gap-2"><Info size={14}/> Analysis</h5>
                    <p>
-                     {selectedAlgo === 'BFS' && "BFS guarantees the shortest path. If you took more steps than the algorithm, your path wasn't fully optimal."}
-                     {selectedAlgo === 'A*' && "A* is highly efficient because it 'guesses' direction. Notice how it explored fewer nodes than BFS would have."}
-                     {selectedAlgo === 'DFS' && "DFS can get lucky or unlucky depending on the goal location. It doesn't guarantee the shortest path."}
-                     {selectedAlgo === 'Dijkstra' && "On this unweighted grid, Dijkstra behaves like BFS, expanding in a perfect circle to find the shortest path."}
+                     {blindFallback ?? (
+                       <>
+                         {selectedAlgo === 'BFS' && "BFS guarantees the fewest steps, but it ignores terrain. On a mixed map, compare costs: a longer path along the road can be cheaper."}
+                         {selectedAlgo === 'A*' && (heuristic.type === 'Zero'
+                           ? "With a zero heuristic A* has no sense of direction: it expands exactly like Dijkstra and gains nothing."
+                           : aStarMayOverestimate
+                             ? "This heuristic (or weight) can overestimate the remaining cost. A* becomes greedier and usually explores fewer nodes, but it loses its guarantee of finding the cheapest route."
+                             : "A* is highly efficient because it 'guesses' direction. Notice how it explored fewer nodes than Dijkstra would have, while still finding the cheapest route.")}
+                         {selectedAlgo === 'DFS' && "DFS can get lucky or unlucky depending on the goal location. It doesn't guarantee the shortest path."}
+                         {selectedAlgo === 'Dijkstra' && (terrain.size > 0
+                           ? "Dijkstra minimizes total cost, not steps: it detours along roads and around mud and water where BFS would wade straight through."
+                           : "On plain ground every step costs the same, so Dijkstra behaves like BFS, expanding in a perfect circle to find the shortest path.")}
+                         {selectedAlgo === 'Greedy' && "Greedy Best-First charges straight at the goal. It explores very few cells when the way is open, but walls and terrain can trick it into a long or expensive path."}
+                         {selectedAlgo === 'Bidirectional' && "Two small searches are cheaper than one big one: the teal and indigo regions together cover far less ground than a single BFS circle reaching all the way to the goal."}
+                         {selectedAlgo === 'IDDFS' && (algoTrace.gaveUp
+                           ? "IDDFS restarts from scratch with a deeper limit on every pass. On this board the repeated work grew so large that it gave up before reaching the goal."
+                           : "IDDFS finds the fewest steps like BFS, but watch the replay: every pass starts over from the start cell, re-exploring everything the previous pass already saw.")}
+                         {selectedAlgo === 'IDA*' && (algoTrace.gaveUp
+                           ? "IDA* repeats its search with a slightly larger bound each pass. On this board the passes piled up until it gave up before reaching the goal."
+                           : "IDA* finds the same cheapest route as A* while keeping only the current branch in memory. The cost is repetition: each pass re-walks the cells the last one covered.")}
+                         {selectedAlgo === 'JPS' && "Jump Point Search jumps along straight runs, so only a handful of cells ever enter its open list. It treats every move as equal, so on mixed terrain its path may cost more than Dijkstra's."}
+                       </>
+                     )}
                    </p>
                 </div>
 
@@ -458,6 +1732,12 @@ const App: React.FC = () => {
                   >
                     Play Again <ArrowRight size={18} />
                   </button>
+                  <button 
+                    onClick={openReplay}
+                    className="flex items-center gap-2 px-4 py-3 rounded-xl font-bold text-purple-700 hover:bg-purple-50 transition-colors"
+                  >
+                    <Film size={18} /> Replay
+                  </button>
                   <button 
                     onClick={() => setGameStatus('SETUP')}
                     className="px-6 py-3 rounded-xl font-bold text-slate-600 hover:bg-slate-100 transition-colors"
@@ -465,11 +1745,45 @@ const App: React.FC = () => {
                     Change Settings
                   </button>
                 </div>
+
+                <div className="flex justify-center gap-2 mt-3">
+                  <button 
+                    onClick={copyChallengeLink}
+                    title="Copy a link that opens this exact board and settings"
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-bold text-indigo-700 hover:bg-indigo-50 transition-colors"
+                  >
+                    {linkCopied ? <><Check size={14} /> Copied!</> : <><Link size={14} /> Share Challenge</>}
+                  </button>
+                  <button 
+                    onClick={exportGame}
+                    title="Save this game (board, settings and every move) as a JSON file"
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+                  >
+                    <Download size={14} /> Export Game
+                  </button>
+                  <button 
+                    onClick={() => importInputRef.current?.click()}
+                    title="Open a saved game in the replay viewer"
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+                  >
+                    <Upload size={14} /> Import Game
+                  </button>
+                </div>
+                {importError && <p className="text-xs text-red-600 mt-2 text-center">{importError}</p>}
               </div>
             </div>
           </div>
         )}
 
+        {showHistory && (
+          <HistoryPanel
+            matches={history}
+            onExport={exportMatchHistory}
+            onClear={clearMatchHistory}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
       </main>
     </div>
   );
@@ -0,0 +1,152 @@
+import React from 'react';
+import { AlgoStep, AlgorithmType, QueueEntry } from '../types';
+import { getPseudocode } from '../services/pseudocode';
+
+interface AlgorithmInspectorProps {
+  algorithm: AlgorithmType;
+  blind: boolean;
+  step: AlgoStep;
+  hideEstimates: boolean; // Priorities built from h would give the goal away mid-race
+}
+
+const ENTRY_LIMIT = 10; // Entries listed per container; the rest are only counted
+
+const ACTION_LABELS: Record<NonNullable<AlgoStep['action']>, string> = {
+  'expand': "Expanding",
+  'backtrack': "Backtracking from",
+  'found': "Goal reached",
+  'exhausted': "Search space exhausted",
+  'gave-up': "Step budget spent"
+};
+
+const formatKey = (key: string) => `(${key})`;
+const formatPriority = (p: number) => Number.isInteger(p) ? String(p) : p.toFixed(2);
+
+// One container (or one half of a bidirectional search) in its real order
+const EntryList: React.FC<{ label: string; ends: [string, string]; keys: string[]; total: number; priorities?: QueueEntry[]; hidePriorities?: boolean }> = ({
+  label,
+  ends,
+  keys,
+  total,
+  priorities,
+  hidePriorities
+}) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-xs text-slate-500">
+      <span className="font-bold">{label}</span>
+      <span>{total} {total === 1 ? 'entry' : 'entries'}</span>
+    </div>
+    {total === 0 ? (
+      <p className="text-xs text-slate-400 italic">Empty</p>
+    ) : (
+      <div className="flex flex-wrap items-center gap-1 font-mono text-xs">
+        <span className="text-slate-400 mr-1">{ends[0]} →</span>
+        {keys.map((key, i) => (
+          <span
+            key={key}
+            className={`px-1.5 py-0.5 rounded border ${i === 0 ? 'bg-purple-50 border-purple-300 text-purple-800' : 'bg-slate-50 border-slate-200 text-slate-700'}`}
+          >
+            {formatKey(key)}{priorities && <span className="text-slate-400"> {hidePriorities ? '?' : formatPriority(priorities[i].priority)}</span>}
+          </span>
+        ))}
+        {total > keys.length && <span className="text-slate-400">… {total - keys.length} more</span>}
+        <span className="text-slate-400 ml-1">← {ends[1]}</span>
+      </div>
+    )}
+  </div>
+);
+
+const AlgorithmInspector: React.FC<AlgorithmInspectorProps> = ({ algorithm, blind, step, hideEstimates }) => {
+  const code = getPseudocode(algorithm, blind);
+
+  const renderContainer = () => {
+    switch (code.container) {
+      case 'PRIORITY_QUEUE': {
+        const entries = step.queue ?? [];
+        return (
+          <EntryList
+            label={`${code.containerName} (by ${code.priority})`}
+            ends={['next', 'last']}
+            keys={entries.map(e => e.key)}
+            total={step.queueSize ?? 0}
+            priorities={entries}
+            hidePriorities={hideEstimates && code.priority !== 'dist'}
+          />
+        );
+      }
+      case 'STACK': {
+        const keys = [...step.frontier].reverse();
+        return <EntryList label={code.containerName} ends={['top', 'bottom']} keys={keys.slice(0, ENTRY_LIMIT)} total={keys.length} />;
+      }
+      case 'LIST': {
+        const keys = [...step.frontier];
+        return <EntryList label={code.containerName} ends={['oldest', 'newest']} keys={keys.slice(0, ENTRY_LIMIT)} total={keys.length} />;
+      }
+      case 'QUEUE': {
+        const keys = [...step.frontier];
+        const backwardKeys = step.backwardFrontier && [...step.backwardFrontier];
+        return (
+          <>
+            <EntryList label={backwardKeys ? "From start" : code.containerName} ends={['front', 'back']} keys={keys.slice(0, ENTRY_LIMIT)} total={keys.length} />
+            {backwardKeys && (
+              <EntryList label="From goal" ends={['front', 'back']} keys={backwardKeys.slice(0, ENTRY_LIMIT)} total={backwardKeys.length} />
+            )}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      <div>
+        <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Pseudocode ({blind && code !== getPseudocode(algorithm, false) ? 'blind fallback' : algorithm})</h4>
+        <ol className="font-mono text-xs space-y-0.5">
+          {code.lines.map((l, i) => (
+            <li
+              key={i}
+              className={`pr-2 py-0.5 rounded transition-colors ${step.action && l.action === step.action ? 'bg-purple-100 text-purple-900 font-bold' : 'text-slate-600'}`}
+              style={{ paddingLeft: `${0.5 + l.indent * 1.25}rem` }}
+            >
+              {l.text}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Data Structures</h4>
+          <div className="space-y-3">{renderContainer()}</div>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          <dt className="text-slate-500">Step</dt>
+          <dd className="font-mono text-slate-700">
+            {step.action ? ACTION_LABELS[step.action] : "Not started"}
+            {step.current && (step.action === 'expand' || step.action === 'backtrack') && ` ${formatKey(`${step.current.row},${step.current.col}`)}`}
+          </dd>
+          {step.depth !== undefined && (
+            <>
+              <dt className="text-slate-500">Depth</dt>
+              <dd className="font-mono text-slate-700">{step.depth}</dd>
+            </>
+          )}
+          {step.bound !== undefined && (
+            <>
+              <dt className="text-slate-500">{algorithm === 'IDDFS' ? "Depth limit" : "f bound"}</dt>
+              <dd className="font-mono text-slate-700">{hideEstimates && algorithm === 'IDA*' ? '?' : formatPriority(step.bound)}</dd>
+            </>
+          )}
+          {step.costMap && step.current && step.costMap.has(`${step.current.row},${step.current.col}`) && (
+            <>
+              <dt className="text-slate-500">g(current)</dt>
+              <dd className="font-mono text-slate-700">{formatPriority(step.costMap.get(`${step.current.row},${step.current.col}`)!)}</dd>
+            </>
+          )}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default AlgorithmInspector;
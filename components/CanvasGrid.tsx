@@ -0,0 +1,321 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { Coordinate, GridDimensions, TerrainType } from '../types';
+import { GridProps } from './Grid';
+import { heatColor, heatPosition, heatTextColor, formatHeatValue } from '../services/heatmap';
+import { Palette, PatternRole, PALETTES, PATTERN_GLYPHS, PATTERN_COLOR } from '../services/accessibility';
+
+// Above this many cells App draws boards on a canvas instead of one <div> per cell
+export const CANVAS_CELL_THRESHOLD = 2500;
+
+export const shouldUseCanvas = (dimensions: GridDimensions): boolean =>
+  dimensions.rows * dimensions.cols > CANVAS_CELL_THRESHOLD;
+
+// The DOM grid's Tailwind colours as canvas fills
+const BACKGROUND = '#f1f5f9'; // slate-100
+const TERRAIN_COLORS: Record<TerrainType, { base: string; visited: string }> = {
+  [TerrainType.ROAD]: { base: '#d6d3d1', visited: '#a8a29e' },
+  [TerrainType.PLAIN]: { base: '#ffffff', visited: '#e2e8f0' },
+  [TerrainType.MUD]: { base: '#ecbb82', visited: '#cb8753' },
+  [TerrainType.WATER]: { base: '#7dd3fc', visited: '#0ea5e9' }
+};
+const TERRAINS = Object.values(TerrainType);
+
+// How a cell is painted, in the same priority order as the DOM grid
+type Paint = 'WALL' | 'PATH' | 'CURRENT' | 'PLAYER' | 'START' | 'GOAL' | 'HEAT' | 'HEAT_FRONTIER' | 'FRONTIER' | 'BACKWARD_FRONTIER' | 'BACKWARD_VISITED' | 'VISITED' | 'EMPTY';
+const PAINTS: Paint[] = ['WALL', 'PATH', 'CURRENT', 'PLAYER', 'START', 'GOAL', 'HEAT', 'HEAT_FRONTIER', 'FRONTIER', 'BACKWARD_FRONTIER', 'BACKWARD_VISITED', 'VISITED', 'EMPTY'];
+const HEAT_SHADES = 255; // Heatmap colours are told apart at this resolution when checking for changes
+const HEAT_FRONTIER_OUTLINE = '#818cf8'; // indigo-400
+const WALL_COLOR = '#334155'; // slate-700; the other solid fills come from the palette
+
+// Paints that carry a pattern glyph when patterns are on
+const PAINT_PATTERNS: Partial<Record<Paint, PatternRole>> = {
+  PATH: 'PATH',
+  HEAT: 'VISITED',
+  HEAT_FRONTIER: 'FRONTIER',
+  FRONTIER: 'FRONTIER',
+  BACKWARD_FRONTIER: 'BACKWARD_FRONTIER',
+  BACKWARD_VISITED: 'BACKWARD_VISITED',
+  VISITED: 'VISITED'
+};
+
+const MIN_GLYPH_SIZE = 8; // Device pixels; smaller cells are colour only
+const MIN_LABEL_SIZE = 18; // Device pixels; heatmap numbers are left out below this
+
+interface CellBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Pixel box of a cell; hex boards shift odd rows half a cell right, like the DOM layout
+const cellBox = (row: number, col: number, dimensions: GridDimensions, isHex: boolean, width: number, height: number): CellBox => {
+  const w = width / (isHex ? dimensions.cols + 0.5 : dimensions.cols);
+  const h = height / dimensions.rows;
+  return { x: (col + (isHex && row % 2 === 1 ? 0.5 : 0)) * w, y: row * h, w, h };
+};
+
+const traceCell = (ctx: CanvasRenderingContext2D, box: CellBox, isHex: boolean) => {
+  const inset = Math.max(0.5, Math.min(box.w, box.h) * 0.06);
+  const x = box.x + inset;
+  const y = box.y + inset;
+  const w = box.w - inset * 2;
+  const h = box.h - inset * 2;
+  ctx.beginPath();
+  if (isHex) {
+    // Same pointy-top outline as the DOM grid's clip path
+    ctx.moveTo(x + w / 2, y);
+    ctx.lineTo(x + w, y + h / 4);
+    ctx.lineTo(x + w, y + (h * 3) / 4);
+    ctx.lineTo(x + w / 2, y + h);
+    ctx.lineTo(x, y + (h * 3) / 4);
+    ctx.lineTo(x, y + h / 4);
+    ctx.closePath();
+  } else {
+    ctx.roundRect(x, y, w, h, Math.min(w, h) * 0.12);
+  }
+};
+
+// White marks standing in for the DOM grid's icons
+const drawGlyph = (ctx: CanvasRenderingContext2D, paint: Paint, box: CellBox, palette: Palette) => {
+  const size = Math.min(box.w, box.h);
+  if (size < MIN_GLYPH_SIZE) return;
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+  const r = size * 0.22;
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#ffffff';
+
+  switch (paint) {
+    case 'PLAYER':
+      ctx.beginPath();
+      ctx.arc(cx, cy - r * 0.5, r * 0.55, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.beginPath();
+      ctx.arc(cx, cy + r * 1.1, r, Math.PI, 0);
+      ctx.fill();
+      break;
+    case 'CURRENT':
+      ctx.fillRect(cx - r, cy - r * 0.7, r * 2, r * 1.5);
+      ctx.fillStyle = palette.CURRENT;
+      ctx.fillRect(cx - r * 0.55, cy - r * 0.3, r * 0.35, r * 0.35);
+      ctx.fillRect(cx + r * 0.2, cy - r * 0.3, r * 0.35, r * 0.35);
+      break;
+    case 'START':
+      ctx.font = `bold ${Math.round(size * 0.5)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('S', cx, cy + size * 0.03);
+      break;
+    case 'GOAL':
+      ctx.lineWidth = Math.max(1, size * 0.07);
+      ctx.beginPath();
+      ctx.moveTo(cx - r, cy + r * 1.3);
+      ctx.lineTo(cx - r, cy - r * 1.3);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(cx - r, cy - r * 1.3);
+      ctx.lineTo(cx + r * 1.2, cy - r * 0.6);
+      ctx.lineTo(cx - r, cy + r * 0.1);
+      ctx.closePath();
+      ctx.fill();
+      break;
+  }
+};
+
+interface Painted {
+  codes: Int32Array; // Paint code last drawn in each cell, -1 when unknown
+  labels: string[]; // Heatmap number last drawn in each cell
+  rows: number;
+  cols: number;
+  width: number;
+  height: number;
+  isHex: boolean;
+  palette: Palette;
+  patterns: boolean;
+}
+
+// Draws the same board as Grid on a single canvas. Each render recomputes a small paint
+// code per cell and repaints only the cells whose code changed (dirty rectangles).
+const CanvasGrid: React.FC<GridProps> = memo(({
+  dimensions,
+  playerPos,
+  algoCurrent,
+  startPos,
+  goalPos,
+  visited,
+  frontier,
+  backwardVisited,
+  backwardFrontier,
+  path,
+  revealGoal,
+  walls,
+  terrain,
+  topology,
+  heatmap,
+  palette = PALETTES.DEFAULT.colors,
+  patterns = false,
+  label,
+  onCellPointerDown,
+  onCellPointerEnter
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const paintedRef = useRef<Painted | null>(null);
+  const pointerCellRef = useRef<string | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 }); // Device pixels
+  const [hover, setHover] = useState<Coordinate | null>(null);
+  const isHex = topology === 'Hex';
+
+  // Match the backing store to the displayed size so cells stay crisp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => {
+      const ratio = window.devicePixelRatio || 1;
+      setSize({ width: Math.round(canvas.clientWidth * ratio), height: Math.round(canvas.clientHeight * ratio) });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0 || size.height === 0) return;
+
+    const { rows, cols } = dimensions;
+    let painted = paintedRef.current;
+    if (canvas.width !== size.width || canvas.height !== size.height) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+      painted = null;
+    }
+    if (!painted || painted.rows !== rows || painted.cols !== cols || painted.isHex !== isHex ||
+      painted.width !== size.width || painted.height !== size.height || painted.palette !== palette || painted.patterns !== patterns) {
+      ctx.fillStyle = BACKGROUND;
+      ctx.fillRect(0, 0, size.width, size.height);
+      painted = { codes: new Int32Array(rows * cols).fill(-1), labels: new Array(rows * cols).fill(''), rows, cols, width: size.width, height: size.height, isHex, palette, patterns };
+      paintedRef.current = painted;
+    }
+
+    const startKey = `${startPos.row},${startPos.col}`;
+    const goalKey = `${goalPos.row},${goalPos.col}`;
+    const playerKey = playerPos && `${playerPos.row},${playerPos.col}`;
+    const currentKey = algoCurrent && `${algoCurrent.row},${algoCurrent.col}`;
+    const firstBox = cellBox(0, 0, dimensions, isHex, size.width, size.height);
+    const showLabels = !!heatmap?.showNumbers && Math.min(firstBox.w, firstBox.h) >= MIN_LABEL_SIZE;
+    const showPatterns = patterns && Math.min(firstBox.w, firstBox.h) >= MIN_GLYPH_SIZE;
+
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const key = `${r},${c}`;
+        const cellTerrain = terrain?.get(key) ?? TerrainType.PLAIN;
+        const heat = heatmap?.values.get(key);
+
+        let paint: Paint;
+        if (walls?.has(key)) paint = 'WALL';
+        else if (path.has(key)) paint = 'PATH';
+        else if (key === currentKey) paint = 'CURRENT';
+        else if (key === playerKey) paint = 'PLAYER';
+        else if (key === startKey) paint = 'START';
+        else if (key === goalKey && revealGoal) paint = 'GOAL';
+        else if (heat !== undefined) paint = frontier.has(key) ? 'HEAT_FRONTIER' : 'HEAT';
+        else if (frontier.has(key)) paint = 'FRONTIER';
+        else if (backwardFrontier?.has(key)) paint = 'BACKWARD_FRONTIER';
+        else if (backwardVisited?.has(key)) paint = 'BACKWARD_VISITED';
+        else if (visited.has(key)) paint = 'VISITED';
+        else paint = 'EMPTY';
+
+        const index = r * cols + c;
+        const isHeat = paint === 'HEAT' || paint === 'HEAT_FRONTIER';
+        const t = isHeat ? heatPosition(heatmap!, heat!) : 0;
+        const code = (PAINTS.indexOf(paint) * TERRAINS.length + TERRAINS.indexOf(cellTerrain)) * (HEAT_SHADES + 1) + Math.round(t * HEAT_SHADES);
+        const label = isHeat && showLabels ? formatHeatValue(heat!) : '';
+        if (painted.codes[index] === code && painted.labels[index] === label) continue;
+        painted.codes[index] = code;
+        painted.labels[index] = label;
+
+        const box = cellBox(r, c, dimensions, isHex, size.width, size.height);
+        ctx.fillStyle = BACKGROUND;
+        ctx.fillRect(box.x, box.y, box.w, box.h);
+        traceCell(ctx, box, isHex);
+        ctx.fillStyle = isHeat ? heatColor(t)
+          : paint === 'VISITED' ? TERRAIN_COLORS[cellTerrain].visited
+          : paint === 'EMPTY' ? TERRAIN_COLORS[cellTerrain].base
+          : paint === 'WALL' ? WALL_COLOR
+          : palette[paint as keyof Palette];
+        ctx.fill();
+        if (paint === 'HEAT_FRONTIER') {
+          ctx.strokeStyle = HEAT_FRONTIER_OUTLINE;
+          ctx.lineWidth = Math.max(1, Math.min(box.w, box.h) * 0.1);
+          ctx.stroke();
+        }
+        if (label) {
+          ctx.fillStyle = heatTextColor(t);
+          ctx.font = `${Math.round(Math.min(box.w, box.h) * 0.32)}px monospace`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(label, box.x + box.w / 2, box.y + box.h / 2);
+        } else if (showPatterns && PAINT_PATTERNS[paint]) {
+          ctx.fillStyle = isHeat ? heatTextColor(t) : PATTERN_COLOR;
+          ctx.font = `${Math.round(Math.min(box.w, box.h) * 0.6)}px sans-serif`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(PATTERN_GLYPHS[PAINT_PATTERNS[paint]!], box.x + box.w / 2, box.y + box.h / 2);
+        }
+        drawGlyph(ctx, paint, box, palette);
+      }
+    }
+  });
+
+  // --- Pointer ---
+  const cellAt = (e: React.PointerEvent<HTMLCanvasElement>): Coordinate | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * dimensions.rows);
+    const x = ((e.clientX - rect.left) / rect.width) * (isHex ? dimensions.cols + 0.5 : dimensions.cols);
+    const col = Math.floor(isHex && row % 2 === 1 ? x - 0.5 : x);
+    if (row < 0 || row >= dimensions.rows || col < 0 || col >= dimensions.cols) return null;
+    return { row, col };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(e);
+    const key = cell && `${cell.row},${cell.col}`;
+    if (key === pointerCellRef.current) return;
+    pointerCellRef.current = key;
+    setHover(cell);
+    if (cell) onCellPointerEnter?.(cell);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(e);
+    if (cell) onCellPointerDown?.(cell);
+  };
+
+  return (
+    <div className="relative p-1 bg-slate-100 rounded-lg shadow-inner select-none">
+      <canvas
+        ref={canvasRef}
+        role="img" // Too many cells for grid semantics; App's live region narrates the play instead
+        aria-label={label && `${label}, ${dimensions.rows} by ${dimensions.cols} cells`}
+        className={`block w-full ${onCellPointerDown ? 'cursor-pointer' : ''}`}
+        style={{ aspectRatio: `${isHex ? dimensions.cols + 0.5 : dimensions.cols} / ${dimensions.rows}`, touchAction: onCellPointerDown ? 'none' : undefined }}
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerDown}
+        onPointerLeave={() => {
+          pointerCellRef.current = null;
+          setHover(null);
+        }}
+      />
+      {hover && (
+        <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-slate-900/70 text-white text-xs font-mono pointer-events-none">
+          ({hover.row},{hover.col})
+        </span>
+      )}
+    </div>
+  );
+});
+
+export default CanvasGrid;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { PATTERN_COLOR } from '../services/accessibility';
+
+interface CellSwatchProps {
+  color: string;
+  glyph?: string; // Shown when the boards draw patterns, so the legend matches them
+}
+
+// Legend key for one cell state
+const CellSwatch: React.FC<CellSwatchProps> = ({ color, glyph }) => (
+  <div
+    className="w-3 h-3 rounded-sm flex items-center justify-center text-[8px] leading-none"
+    style={{ backgroundColor: color, color: PATTERN_COLOR }}
+    aria-hidden="true"
+  >
+    {glyph}
+  </div>
+);
+
+export default CellSwatch;
@@ -0,0 +1,474 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AlgorithmType, AlgoStep, AuthoredMap, SearchOptions } from '../types';
+import * as Algorithms from '../services/algorithms';
+import * as Mazes from '../services/mazes';
+import { AlgoTrace } from '../services/trace';
+import { startSearch, collectSearch, SearchHandle, SearchRequest } from '../services/searchClient';
+import { createRandom, randomSeed, parseSeed } from '../services/random';
+import { RunStats, getRunStats, summarize } from '../services/stats';
+import { Palette } from '../services/accessibility';
+import Grid from './Grid';
+import CanvasGrid, { shouldUseCanvas } from './CanvasGrid';
+import PlaybackControls, { BASE_TICK_MS } from './PlaybackControls';
+import { GitCompare, ArrowLeft, Shuffle, BarChart3, X } from 'lucide-react';
+
+interface CompareViewProps {
+  algorithms: AlgorithmType[]; // Every algorithm, in display order
+  initialSelection: AlgorithmType[];
+  settings: Mazes.BoardSettings;
+  authoredMap: AuthoredMap | null; // Used as the board instead of generating one
+  seedInput: string; // Seed for the first board (and the first batch board); blank picks one
+  options: SearchOptions;
+  palette?: Palette; // Accessibility colours for the boards, as in the race view
+  patterns?: boolean;
+  onExit: () => void;
+}
+
+// One streaming search per algorithm on the shared board
+interface CompareRun {
+  trace: AlgoTrace;
+  length: number;
+  done: boolean;
+}
+
+interface BatchRow {
+  algorithm: AlgorithmType;
+  runs: number;
+  solved: number;
+  optimal: number; // Solved runs whose cost matched Dijkstra's
+  visited: number[];
+  frontierPeak: number[];
+  pathLength: number[];
+  pathCost: number[];
+  time: number[]; // Wall-clock milliseconds from request to last step: worker start-up and streaming included
+}
+
+const BATCH_SIZES = [5, 10, 25, 50];
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_COMPARE_SPEED = 10;
+const START = { row: 0, col: 0 };
+const EMPTY_STEP: AlgoStep = { visited: new Set(), frontier: new Set(), path: [] };
+
+const formatNumber = (value: number): string => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+const runStatus = (run: CompareRun | undefined, stats: RunStats | null): string => {
+  if (!run?.done || !stats) return 'Searching…';
+  if (stats.pathLength !== null) return `Path: ${stats.pathLength} steps`;
+  if (stats.gaveUp) return 'Gave up';
+  return stats.exhausted ? 'No path' : '';
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ algorithms, initialSelection, settings, authoredMap, seedInput, options, palette, patterns, onExit }) => {
+  const [selection, setSelection] = useState<AlgorithmType[]>(initialSelection);
+  const [board, setBoard] = useState<Mazes.Board | null>(null);
+  const [boardSeed, setBoardSeed] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runs, setRuns] = useState<Partial<Record<AlgorithmType, CompareRun>>>({});
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(DEFAULT_COMPARE_SPEED);
+
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [batchRows, setBatchRows] = useState<BatchRow[] | null>(null);
+  const [batchSkipped, setBatchSkipped] = useState(0);
+
+  const searchesRef = useRef<SearchHandle[]>([]);
+  const batchCancelRef = useRef<(() => void) | null>(null);
+
+  const isAvailable = (algorithm: AlgorithmType) => algorithm !== 'JPS' || settings.movement.topology === 'Square4';
+
+  const cancelSearches = () => {
+    searchesRef.current.forEach(s => s.cancel());
+    searchesRef.current = [];
+  };
+
+  const cancelBatch = () => {
+    batchCancelRef.current?.();
+    batchCancelRef.current = null;
+  };
+
+  useEffect(() => () => {
+    cancelSearches();
+    cancelBatch();
+  }, []);
+
+  // --- Shared Board ---
+  // Every selected algorithm searches the same board; their traces stream in side by side.
+  // The board seed also seeds random neighbour order, so the runs match a race on this board.
+  const runAll = (target: Mazes.Board, chosen: AlgorithmType[], seed: number) => {
+    cancelSearches();
+    const next: Partial<Record<AlgorithmType, CompareRun>> = {};
+    for (const algorithm of chosen) {
+      const trace = new AlgoTrace();
+      next[algorithm] = { trace, length: 0, done: false };
+      const update = (patch: Partial<CompareRun>) =>
+        setRuns(prev => prev[algorithm]?.trace === trace ? { ...prev, [algorithm]: { ...prev[algorithm]!, ...patch } } : prev);
+
+      searchesRef.current.push(startSearch({ algorithm, grid: target.grid, start: target.start, goal: target.goal, options: { ...options, neighborSeed: seed } }, {
+        onBatch: events => {
+          trace.append(events);
+          update({ length: trace.length });
+        },
+        onDone: () => update({ done: true }),
+        onError: message => setError(`The ${algorithm} search failed: ${message}`)
+      }));
+    }
+    setRuns(next);
+    setIndex(0);
+    setPlaying(true);
+  };
+
+  const loadBoard = (seed: number) => {
+    const next = authoredMap
+      ? Mazes.authoredBoard(authoredMap, settings.movement)
+      : Mazes.generateBoard(settings, START, createRandom(seed));
+    if (!next) {
+      setError(authoredMap
+        ? "The custom map's goal cannot be reached from its start."
+        : "Could not place a reachable goal. Try another map type or a larger grid.");
+      return;
+    }
+    setError(null);
+    setBoard(next);
+    setBoardSeed(seed);
+    runAll(next, selection, seed);
+  };
+
+  useEffect(() => {
+    loadBoard(parseSeed(seedInput) ?? randomSeed());
+  }, []);
+
+  const toggleAlgorithm = (algorithm: AlgorithmType) => {
+    const chosen = selection.includes(algorithm) ? selection.filter(a => a !== algorithm) : [...selection, algorithm];
+    if (chosen.length === 0) return;
+    const ordered = algorithms.filter(a => chosen.includes(a));
+    setSelection(ordered);
+    setBatchRows(null);
+    if (board && boardSeed !== null) runAll(board, ordered, boardSeed);
+  };
+
+  // --- Lockstep Playback ---
+  // One index drives every board; a search that has finished keeps showing its last step
+  const shownRuns = selection.map(algorithm => ({ algorithm, run: runs[algorithm] }));
+  const timelineLength = Math.max(1, ...shownRuns.map(({ run }) => run?.length ?? 0));
+  const allDone = shownRuns.every(({ run }) => run?.done);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = window.setInterval(() => {
+      setIndex(prev => {
+        if (prev < timelineLength - 1) return prev + 1;
+        if (allDone) setPlaying(false);
+        return prev;
+      });
+    }, BASE_TICK_MS / speed);
+    return () => clearInterval(timer);
+  }, [playing, speed, timelineLength, allDone]);
+
+  const togglePlay = () => {
+    if (!playing && index >= timelineLength - 1) setIndex(0);
+    setPlaying(prev => !prev);
+  };
+
+  const seek = (target: number) => {
+    setPlaying(false);
+    setIndex(target);
+  };
+
+  const frames = useMemo(() => shownRuns.map(({ algorithm, run }) => {
+    if (!run || run.length === 0 || !board) return { algorithm, step: EMPTY_STEP, stats: null as RunStats | null, run };
+    const stepIndex = Math.min(index, run.length - 1);
+    const step = run.trace.getStep(stepIndex);
+    return { algorithm, step, stats: getRunStats(run.trace, board.grid, stepIndex, step), run };
+  }), [runs, selection, index, board]);
+
+  // --- Batch Runs ---
+  // Every selected algorithm on N fresh boards; with a typed seed the boards are seed, seed + 1, ...
+  const runBatch = async () => {
+    cancelBatch();
+    const baseSeed = parseSeed(seedInput);
+    const chosen = selection;
+    const rows: BatchRow[] = chosen.map(algorithm => ({
+      algorithm, runs: 0, solved: 0, optimal: 0, visited: [], frontierPeak: [], pathLength: [], pathCost: [], time: []
+    }));
+    let skipped = 0;
+    let cancelled = false;
+    batchCancelRef.current = () => { cancelled = true; };
+    setBatchRows(null);
+    setBatchProgress({ done: 0, total: batchSize });
+
+    // One search in the worker; null if it failed (reported) or the batch was stopped
+    const collect = async (request: SearchRequest): Promise<AlgoTrace | null> => {
+      const search = collectSearch(request);
+      batchCancelRef.current = () => {
+        cancelled = true;
+        search.cancel();
+      };
+      try {
+        return await search.done;
+      } catch (e) {
+        if (!cancelled) setError(`The ${request.algorithm} search failed: ${e instanceof Error ? e.message : String(e)}`);
+        return null;
+      }
+    };
+
+    for (let i = 0; i < batchSize; i++) {
+      const seed = baseSeed !== null ? (baseSeed + i) >>> 0 : randomSeed();
+      const target = Mazes.generateBoard(settings, START, createRandom(seed));
+      // The cheapest cost comes from Dijkstra in the worker too, so large boards don't stall the page
+      const reference = target && await collect({ algorithm: 'Dijkstra', grid: target.grid, start: target.start, goal: target.goal });
+      if (cancelled) return;
+      const baselineCost = target && reference?.path ? Algorithms.getPathCost(reference.path, target.grid) : null;
+      // Progress counts boards, so a skipped board still moves it on by one
+      if (!target || baselineCost === null) {
+        skipped++;
+        setBatchProgress({ done: i + 1, total: batchSize });
+        continue;
+      }
+
+      for (const [a, algorithm] of chosen.entries()) {
+        const began = performance.now();
+        const trace = await collect({ algorithm, grid: target.grid, start: target.start, goal: target.goal, options: { ...options, neighborSeed: seed } });
+        if (cancelled) return;
+        if (!trace) continue;
+
+        const row = rows[a];
+        const stats = getRunStats(trace, target.grid);
+        row.runs++;
+        row.time.push(performance.now() - began);
+        row.visited.push(stats.visited);
+        row.frontierPeak.push(stats.frontierPeak);
+        if (stats.pathLength !== null && stats.pathCost !== null) {
+          row.solved++;
+          row.pathLength.push(stats.pathLength);
+          row.pathCost.push(stats.pathCost);
+          if (stats.pathCost - baselineCost < 1e-9) row.optimal++;
+        }
+      }
+      setBatchProgress({ done: i + 1, total: batchSize });
+    }
+
+    batchCancelRef.current = null;
+    setBatchSkipped(skipped);
+    setBatchRows(rows);
+    setBatchProgress(null);
+  };
+
+  const stopBatch = () => {
+    cancelBatch();
+    setBatchProgress(null);
+  };
+
+  const summaryCell = (values: number[]) => {
+    const s = summarize(values);
+    if (!s) return <span className="text-slate-400">–</span>;
+    return (
+      <span title={`median ${formatNumber(s.median)} · min ${formatNumber(s.min)} · max ${formatNumber(s.max)}`}>
+        {formatNumber(s.mean)} <span className="text-slate-400 text-xs">({formatNumber(s.median)})</span>
+      </span>
+    );
+  };
+
+  const BoardGrid = board && shouldUseCanvas(board.grid) ? CanvasGrid : Grid;
+  const headerCell = "pb-2 px-2 text-right";
+  const bodyCell = "py-2 px-2 text-right font-mono";
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white p-6 rounded-2xl shadow-lg border border-slate-100 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <GitCompare className="text-indigo-500" /> Compare Algorithms
+          </h2>
+          <div className="flex gap-2">
+            {!authoredMap && (
+              <button
+                onClick={() => loadBoard(randomSeed())}
+                className="flex items-center gap-2 px-4 py-2 rounded-full font-bold bg-slate-100 hover:bg-slate-200 text-slate-700 transition-colors"
+              >
+                <Shuffle size={18} /> New Board
+              </button>
+            )}
+            <button
+              onClick={onExit}
+              className="flex items-center gap-2 px-4 py-2 rounded-full font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+              <ArrowLeft size={18} /> Back to Setup
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {algorithms.map(algorithm => (
+            <button
+              key={algorithm}
+              onClick={() => toggleAlgorithm(algorithm)}
+              disabled={!isAvailable(algorithm)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-bold border transition-all disabled:opacity-40 ${
+                selection.includes(algorithm)
+                  ? 'bg-purple-50 border-purple-500 text-purple-700 ring-2 ring-purple-200'
+                  : 'bg-white border-slate-200 hover:border-slate-300 text-slate-600'
+              }`}
+            >
+              {algorithm}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xs text-slate-500">
+          {authoredMap ? 'Custom map from the editor.' : boardSeed !== null && <>Board seed <span className="font-mono font-bold">{boardSeed}</span>.</>}
+          {' '}Every board starts at the same cell and races for the same goal.
+        </p>
+        {error && <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3">{error}</p>}
+
+        <PlaybackControls
+          index={Math.min(index, timelineLength - 1)}
+          length={timelineLength}
+          playing={playing}
+          speed={speed}
+          onTogglePlay={togglePlay}
+          onSeek={seek}
+          onSpeedChange={setSpeed}
+        />
+      </div>
+
+      {board && (
+        <div className={`grid gap-4 ${selection.length > 1 ? 'md:grid-cols-2' : ''} ${selection.length > 2 ? 'xl:grid-cols-3' : ''}`}>
+          {frames.map(({ algorithm, step, stats, run }) => (
+            <div key={algorithm} className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-purple-700">{algorithm}</h3>
+                <span className="text-xs text-slate-500">
+                  {runStatus(run, stats)}
+                </span>
+              </div>
+              <BoardGrid
+                dimensions={board.grid}
+                algoCurrent={step.current}
+                startPos={board.start}
+                goalPos={board.goal}
+                isPlayerGrid={false}
+                visited={step.visited}
+                frontier={step.frontier}
+                backwardVisited={step.backwardVisited}
+                backwardFrontier={step.backwardFrontier}
+                path={new Set((step.path ?? []).map(p => `${p.row},${p.col}`))}
+                walls={board.grid.walls}
+                terrain={board.grid.terrain}
+                topology={settings.movement.topology}
+                revealGoal={true}
+                algorithmType={algorithm}
+                palette={palette}
+                patterns={patterns}
+                label={`${algorithm}'s board`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-2xl shadow-lg border border-slate-100 overflow-x-auto">
+        <h3 className="font-bold text-slate-800 mb-3">Live Figures</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs uppercase text-slate-400">
+              <th className="pb-2 pr-2 text-left">Algorithm</th>
+              <th className={headerCell}>Nodes Visited</th>
+              <th className={headerCell}>Frontier Peak</th>
+              <th className={headerCell}>Path Length</th>
+              <th className={headerCell}>Path Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {frames.map(({ algorithm, stats }) => (
+              <tr key={algorithm} className="border-t border-slate-100">
+                <td className="py-2 pr-2 font-bold text-slate-700">{algorithm}</td>
+                <td className={bodyCell}>{stats?.visited ?? 0}</td>
+                <td className={bodyCell}>{stats?.frontierPeak ?? 0}</td>
+                <td className={bodyCell}>{stats?.pathLength ?? (stats?.exhausted ? 'none' : '…')}</td>
+                <td className={bodyCell}>{stats?.pathCost !== null && stats?.pathCost !== undefined ? formatNumber(stats.pathCost) : (stats?.exhausted ? 'none' : '…')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-lg border border-slate-100 space-y-4 overflow-x-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><BarChart3 size={18} className="text-indigo-500" /> Batch Run</h3>
+          <div className="flex items-center gap-2">
+            <select
+              className="p-2 text-sm bg-slate-50 border border-slate-300 rounded-lg"
+              value={batchSize}
+              onChange={(e) => setBatchSize(Number(e.target.value))}
+              disabled={batchProgress !== null}
+            >
+              {BATCH_SIZES.map(n => <option key={n} value={n}>{n} boards</option>)}
+            </select>
+            {batchProgress ? (
+              <button
+                onClick={stopBatch}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-slate-200 hover:bg-slate-300 text-slate-700 transition-colors"
+              >
+                <X size={16} /> Stop ({batchProgress.done}/{batchProgress.total} boards)
+              </button>
+            ) : (
+              <button
+                onClick={runBatch}
+                disabled={!!authoredMap}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white transition-colors"
+              >
+                <BarChart3 size={16} /> Run Batch
+              </button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          {authoredMap
+            ? "Batch runs need generated boards. Discard the custom map in the setup to use them."
+            : "Runs every selected algorithm on fresh boards with the current map settings. Cells show the mean, with the median in brackets; hover for the range. Wall time includes starting the worker and streaming the trace back, not just the search."}
+        </p>
+
+        {batchRows && (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase text-slate-400">
+                  <th className="pb-2 pr-2 text-left">Algorithm</th>
+                  <th className={headerCell}>Solved</th>
+                  <th className={headerCell}>Optimal</th>
+                  <th className={headerCell}>Nodes Visited</th>
+                  <th className={headerCell}>Frontier Peak</th>
+                  <th className={headerCell}>Path Length</th>
+                  <th className={headerCell}>Path Cost</th>
+                  <th className={headerCell} title="Wall-clock time from request to result, including worker start-up and trace transfer">Wall Time (ms)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batchRows.map(row => (
+                  <tr key={row.algorithm} className="border-t border-slate-100">
+                    <td className="py-2 pr-2 font-bold text-slate-700">{row.algorithm}</td>
+                    <td className={bodyCell}>{row.solved}/{row.runs}</td>
+                    <td className={bodyCell}>{row.optimal}/{row.solved}</td>
+                    <td className={bodyCell}>{summaryCell(row.visited)}</td>
+                    <td className={bodyCell}>{summaryCell(row.frontierPeak)}</td>
+                    <td className={bodyCell}>{summaryCell(row.pathLength)}</td>
+                    <td className={bodyCell}>{summaryCell(row.pathCost)}</td>
+                    <td className={bodyCell}>{summaryCell(row.time)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {batchSkipped > 0 && (
+              <p className="text-xs text-amber-700">{batchSkipped} board(s) had no reachable goal and were skipped.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
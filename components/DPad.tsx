@@ -0,0 +1,42 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight } from 'lucide-react';
+import { Topology } from '../types';
+import { MoveDirection, getMoveDirections } from '../services/topology';
+
+interface DPadProps {
+  topology: Topology;
+  disabled: boolean;
+  onMove: (direction: MoveDirection) => void;
+}
+
+// Where each button sits in the 3x3 pad, and what it shows
+const BUTTONS: Record<MoveDirection, { area: string; icon: React.ReactNode; label: string }> = {
+  UP_LEFT: { area: 'col-start-1 row-start-1', icon: <ArrowUpLeft size={20} />, label: "Move up-left" },
+  UP: { area: 'col-start-2 row-start-1', icon: <ArrowUp size={20} />, label: "Move up" },
+  UP_RIGHT: { area: 'col-start-3 row-start-1', icon: <ArrowUpRight size={20} />, label: "Move up-right" },
+  LEFT: { area: 'col-start-1 row-start-2', icon: <ArrowLeft size={20} />, label: "Move left" },
+  RIGHT: { area: 'col-start-3 row-start-2', icon: <ArrowRight size={20} />, label: "Move right" },
+  DOWN_LEFT: { area: 'col-start-1 row-start-3', icon: <ArrowDownLeft size={20} />, label: "Move down-left" },
+  DOWN: { area: 'col-start-2 row-start-3', icon: <ArrowDown size={20} />, label: "Move down" },
+  DOWN_RIGHT: { area: 'col-start-3 row-start-3', icon: <ArrowDownRight size={20} />, label: "Move down-right" }
+};
+
+// On-screen buttons for the moves the board's topology allows
+const DPad: React.FC<DPadProps> = ({ topology, disabled, onMove }) => (
+  <div className="grid grid-cols-3 grid-rows-3 gap-1 w-40 mx-auto select-none" style={{ touchAction: 'manipulation' }}>
+    {getMoveDirections(topology).map(direction => (
+      <button
+        key={direction}
+        className={`${BUTTONS[direction].area} h-12 flex items-center justify-center rounded-lg bg-blue-50 border border-blue-200 text-blue-700 active:bg-blue-200 disabled:opacity-30 transition-colors`}
+        onClick={() => onMove(direction)}
+        disabled={disabled}
+        title={BUTTONS[direction].label}
+        aria-label={BUTTONS[direction].label}
+      >
+        {BUTTONS[direction].icon}
+      </button>
+    ))}
+  </div>
+);
+
+export default DPad;
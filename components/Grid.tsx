@@ -1,8 +1,21 @@
 import React, { memo } from 'react';
-import { Coordinate, GridDimensions } from '../types';
+import { Coordinate, GridDimensions, TerrainType, Topology } from '../types';
+import { Heatmap, heatColor, heatPosition, heatTextColor, formatHeatValue } from '../services/heatmap';
+import { Palette, PaletteRole, PatternRole, PATTERN_GLYPHS, PATTERN_COLOR, describeCell, describeTerrain } from '../services/accessibility';
 import { User, Flag, Bot } from 'lucide-react';
 
-interface GridProps {
+// Background per terrain, plus a darker shade once the cell has been visited
+export const TERRAIN_STYLES: Record<TerrainType, { base: string; visited: string }> = {
+  [TerrainType.ROAD]: { base: "bg-stone-300", visited: "bg-stone-400" },
+  [TerrainType.PLAIN]: { base: "bg-white", visited: "bg-slate-200" },
+  [TerrainType.MUD]: { base: "bg-amber-600/50", visited: "bg-amber-700/70" },
+  [TerrainType.WATER]: { base: "bg-sky-300", visited: "bg-sky-500" }
+};
+
+// Pointy-top hexagon; cells in odd rows are shifted half a cell to the right
+const HEX_CLIP_PATH = 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)';
+
+export interface GridProps {
   dimensions: GridDimensions;
   playerPos?: Coordinate; // Only for player grid
   algoCurrent?: Coordinate; // Only for algo grid
@@ -11,10 +24,20 @@ interface GridProps {
   isPlayerGrid: boolean;
   visited: Set<string>;
   frontier: Set<string>;
+  backwardVisited?: Set<string>; // Bidirectional search: the half grown from the goal
+  backwardFrontier?: Set<string>;
   path: Set<string>; // Set of strings for O(1) lookup
+  walls?: Set<string>; // Impassable cells
+  terrain?: Map<string, TerrainType>; // Cells not listed are PLAIN
+  topology?: Topology; // Hex boards use an offset honeycomb layout
   revealGoal: boolean; // True for algo, false for player (until end)
   algorithmType?: string;
-  recursionDepth?: number; // Visual aid for DFS
+  heatmap?: Heatmap; // Cost / order overlay on explored cells
+  palette?: Palette; // Colour-blind / high contrast fills; the Tailwind colours when unset
+  patterns?: boolean; // Glyphs on path, frontier and visited cells so they don't rely on colour
+  label?: string; // Accessible name of the board
+  onCellPointerDown?: (cell: Coordinate) => void; // Map editor painting
+  onCellPointerEnter?: (cell: Coordinate) => void; // Drag painting
 }
 
 const Grid: React.FC<GridProps> = memo(({
@@ -26,18 +49,30 @@ const Grid: React.FC<GridProps> = memo(({
   isPlayerGrid,
   visited,
   frontier,
+  backwardVisited,
+  backwardFrontier,
   path,
   revealGoal,
-  recursionDepth
+  walls,
+  terrain,
+  topology,
+  heatmap,
+  palette,
+  patterns,
+  label,
+  onCellPointerDown,
+  onCellPointerEnter
 }) => {
-  const cells = [];
+  const rowsOfCells = [];
   const totalCells = dimensions.rows * dimensions.cols;
 
   // Pre-calculate string keys for rendering loop optimization
   const startKey = `${startPos.row},${startPos.col}`;
   const goalKey = `${goalPos.row},${goalPos.col}`;
+  const isHex = topology === 'Hex';
 
   for (let r = 0; r < dimensions.rows; r++) {
+    const cells = [];
     for (let c = 0; c < dimensions.cols; c++) {
       const key = `${r},${c}`;
       
@@ -48,27 +83,73 @@ const Grid: React.FC<GridProps> = memo(({
       const isPath = path.has(key);
       const isVisited = visited.has(key);
       const isFrontier = frontier.has(key);
+      const isBackwardVisited = backwardVisited ? backwardVisited.has(key) : false;
+      const isBackwardFrontier = backwardFrontier ? backwardFrontier.has(key) : false;
+      const isWall = walls ? walls.has(key) : false;
+      const cellTerrain = terrain?.get(key) ?? TerrainType.PLAIN;
+      const terrainStyle = TERRAIN_STYLES[cellTerrain];
+      const heat = heatmap?.values.get(key);
+      let heatStyle: React.CSSProperties | undefined;
+      let role: PaletteRole | undefined; // Fill taken from the palette, if one is set
+      let pattern: PatternRole | undefined;
+      let state: string | undefined; // For screen readers
 
       // Determine Styling
       let baseClasses = "w-full h-full rounded-sm transition-all duration-300 border border-slate-800/20 shadow-sm flex items-center justify-center text-xs";
-      let bgClass = "bg-white"; // Default empty
+      let bgClass = terrainStyle.base; // Default empty
 
-      if (isPath) {
+      if (isWall) {
+        bgClass = "bg-slate-700 border-slate-800";
+        state = "wall";
+      } else if (isPath) {
         bgClass = "bg-yellow-400 animate-pulse ring-2 ring-yellow-200 z-10";
+        role = 'PATH';
+        pattern = 'PATH';
+        state = "on the path";
       } else if (isAlgoCurrent) {
         bgClass = "bg-purple-500 z-20 scale-110 shadow-lg ring-2 ring-purple-300";
+        role = 'CURRENT';
+        state = "being expanded";
       } else if (isPlayer) {
         bgClass = "bg-blue-600 z-20 scale-110 shadow-lg ring-2 ring-blue-300";
+        role = 'PLAYER';
+        state = "you are here";
       } else if (isStart) {
         bgClass = "bg-emerald-500 z-10";
+        role = 'START';
+        state = "start";
       } else if (isGoal && revealGoal) {
         bgClass = "bg-red-500 z-10 animate-bounce";
+        role = 'GOAL';
+        state = "goal";
+      } else if (heat !== undefined) {
+        // The overlay replaces the explored shades; frontier cells keep an outline
+        const t = heatPosition(heatmap!, heat);
+        heatStyle = { backgroundColor: heatColor(t), color: heatTextColor(t) };
+        bgClass = isFrontier ? "ring-2 ring-inset ring-indigo-400" : "";
+        pattern = isFrontier ? 'FRONTIER' : 'VISITED';
+        state = `${isFrontier ? "frontier" : "visited"}, ${formatHeatValue(heat)}`;
       } else if (isFrontier) {
         bgClass = "bg-indigo-300 animate-pulse";
+        role = 'FRONTIER';
+        pattern = 'FRONTIER';
+        state = "frontier";
+      } else if (isBackwardFrontier) {
+        bgClass = "bg-teal-300 animate-pulse";
+        role = 'BACKWARD_FRONTIER';
+        pattern = 'BACKWARD_FRONTIER';
+        state = "goal-side frontier";
+      } else if (isBackwardVisited) {
+        bgClass = "bg-teal-100";
+        role = 'BACKWARD_VISITED';
+        pattern = 'BACKWARD_VISITED';
+        state = "goal-side visited";
       } else if (isVisited) {
-        // Subtle visual difference for DFS depth if provided
-        bgClass = "bg-slate-200";
+        bgClass = terrainStyle.visited;
+        pattern = 'VISITED';
+        state = isPlayerGrid ? "on your trail" : "visited";
       }
+      const fillStyle: React.CSSProperties | undefined = heatStyle ?? (palette && role ? { backgroundColor: palette[role] } : undefined);
 
       // Content
       let content = null;
@@ -76,28 +157,50 @@ const Grid: React.FC<GridProps> = memo(({
       else if (isAlgoCurrent) content = <Bot size={14} className="text-white" />;
       else if (isStart) content = <div className="text-white font-bold">S</div>;
       else if (isGoal && revealGoal) content = <Flag size={14} className="text-white fill-current" />;
+      else if (heatStyle && heatmap!.showNumbers) content = <span className="text-[8px] leading-none font-mono">{formatHeatValue(heat!)}</span>;
+      else if (patterns && pattern) content = <span className="text-[10px] leading-none" style={heatStyle ? undefined : { color: PATTERN_COLOR }} aria-hidden="true">{PATTERN_GLYPHS[pattern]}</span>;
+
+      const description = [describeCell({ row: r, col: c }), state, cellTerrain !== TerrainType.PLAIN && !isWall ? describeTerrain(cellTerrain) : undefined]
+        .filter(Boolean).join(', ');
 
       cells.push(
         <div
           key={key}
-          className={`${baseClasses} ${bgClass}`}
+          className={`${baseClasses} ${bgClass} ${onCellPointerDown ? 'cursor-pointer' : ''}`}
+          style={isHex ? { ...fillStyle, gridRow: r + 1, gridColumn: `${c * 2 + (r % 2) + 1} / span 2`, clipPath: HEX_CLIP_PATH } : fillStyle}
           title={`(${r},${c})`}
+          role="gridcell"
+          aria-colindex={c + 1}
+          aria-label={description}
+          onPointerDown={onCellPointerDown && (() => onCellPointerDown({ row: r, col: c }))}
+          onPointerEnter={onCellPointerEnter && (() => onCellPointerEnter({ row: r, col: c }))}
         >
           {content}
         </div>
       );
     }
+    // `contents` keeps the cells laid out on the board's own CSS grid
+    rowsOfCells.push(<div key={r} role="row" aria-rowindex={r + 1} className="contents">{cells}</div>);
   }
 
   return (
     <div 
+      role="grid"
+      aria-label={label}
+      aria-rowcount={dimensions.rows}
+      aria-colcount={dimensions.cols}
+      aria-readonly="true"
       className="grid gap-1 p-1 bg-slate-100 rounded-lg shadow-inner select-none"
-      style={{
+      style={isHex ? {
+        // Every hex spans two half-columns, leaving room for the odd-row offset
+        gridTemplateColumns: `repeat(${dimensions.cols * 2 + 1}, minmax(0, 1fr))`,
+        aspectRatio: `${dimensions.cols + 0.5} / ${dimensions.rows}`
+      } : {
         gridTemplateColumns: `repeat(${dimensions.cols}, minmax(0, 1fr))`,
         aspectRatio: `${dimensions.cols} / ${dimensions.rows}`
       }}
     >
-      {cells}
+      {rowsOfCells}
     </div>
   );
 });
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Heatmap, HEAT_GRADIENT, formatHeatValue } from '../services/heatmap';
+
+interface HeatmapLegendProps {
+  title: string;
+  heatmap: Heatmap;
+  note?: string; // Extra reading aid, e.g. the current DFS depth
+}
+
+const HeatmapLegend: React.FC<HeatmapLegendProps> = ({ title, heatmap, note }) => (
+  <div className="px-1 space-y-1 text-xs text-slate-500">
+    <div className="flex justify-between gap-2">
+      <span className="font-bold text-slate-600">{title}</span>
+      {note && <span>{note}</span>}
+    </div>
+    {heatmap.values.size === 0 ? (
+      <p>No values yet.</p>
+    ) : (
+      <>
+        <div className="h-2 rounded-full" style={{ background: HEAT_GRADIENT }}></div>
+        <div className="flex justify-between font-mono">
+          <span>{formatHeatValue(heatmap.min)}</span>
+          <span>{formatHeatValue(heatmap.max)}</span>
+        </div>
+      </>
+    )}
+  </div>
+);
+
+export default HeatmapLegend;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AlgorithmType } from '../types';
+import { MatchRecord, MatchStats, getMatchStats, groupMatches, sizeLabel } from '../services/history';
+import { Trophy, X, Download, Trash2, Flame } from 'lucide-react';
+
+interface HistoryPanelProps {
+  matches: MatchRecord[]; // Oldest first
+  onExport: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const ALL = 'ALL';
+const RECENT_COUNT = 10;
+
+const OUTCOME_STYLES: Record<MatchRecord['result']['winner'], { label: string; className: string }> = {
+  'PLAYER': { label: 'Win', className: 'text-blue-600' },
+  'ALGORITHM': { label: 'Loss', className: 'text-purple-600' },
+  'DRAW': { label: 'Draw', className: 'text-slate-500' }
+};
+
+const StatsRow: React.FC<{ label: string; stats: MatchStats }> = ({ label, stats }) => (
+  <tr className="border-t border-slate-100">
+    <td className="py-2 pr-2 font-bold text-slate-700">{label}</td>
+    <td className="py-2 px-2 text-right font-mono">{stats.games}</td>
+    <td className="py-2 px-2 text-right font-mono">
+      <span className="text-blue-600">{stats.wins}</span>-<span className="text-purple-600">{stats.losses}</span>-{stats.draws}
+    </td>
+    <td className="py-2 px-2 text-right font-mono">{Math.round(stats.winRate * 100)}%</td>
+    <td className="py-2 px-2 text-right font-mono">{stats.bestTime !== null ? `${stats.bestTime.toFixed(1)}s` : '–'}</td>
+    <td className="py-2 px-2 text-right font-mono">{stats.fewestSteps ?? '–'}</td>
+    <td className="py-2 pl-2 text-right font-mono">
+      {stats.currentStreak > 0 && <Flame size={12} className="inline text-orange-500 mr-0.5" />}
+      {stats.currentStreak} / {stats.bestStreak}
+    </td>
+  </tr>
+);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ matches, onExport, onClear, onClose }) => {
+  const [algorithmFilter, setAlgorithmFilter] = useState<AlgorithmType | typeof ALL>(ALL);
+  const [sizeFilter, setSizeFilter] = useState<string>(ALL);
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
+  const algorithms = [...groupMatches(matches, m => m.algorithm).keys()] as AlgorithmType[];
+  const sizes = [...groupMatches(matches, sizeLabel).keys()];
+
+  const filtered = matches.filter(m =>
+    (algorithmFilter === ALL || m.algorithm === algorithmFilter) && (sizeFilter === ALL || sizeLabel(m) === sizeFilter)
+  );
+  // With one opponent picked, rows break it down by grid size instead
+  const rows = groupMatches(filtered, algorithmFilter === ALL ? m => m.algorithm : sizeLabel);
+  const recent = filtered.slice(-RECENT_COUNT).reverse();
+
+  const clear = () => {
+    if (!confirmingClear) {
+      setConfirmingClear(true);
+      return;
+    }
+    onClear();
+    setConfirmingClear(false);
+  };
+
+  const selectClass = "p-1.5 text-sm bg-slate-50 border border-slate-300 rounded-lg";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Trophy className="text-amber-500" /> History & Leaderboard
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-6">
+          {matches.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No games yet. Finished races are saved here automatically.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-3">
+                <select className={selectClass} value={algorithmFilter} onChange={(e) => setAlgorithmFilter(e.target.value as AlgorithmType | typeof ALL)}>
+                  <option value={ALL}>All opponents</option>
+                  {algorithms.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+                <select className={selectClass} value={sizeFilter} onChange={(e) => setSizeFilter(e.target.value)}>
+                  <option value={ALL}>All grid sizes</option>
+                  {sizes.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs uppercase text-slate-400">
+                    <th className="pb-2 pr-2 text-left">{algorithmFilter === ALL ? 'Opponent' : 'Grid'}</th>
+                    <th className="pb-2 px-2 text-right">Games</th>
+                    <th className="pb-2 px-2 text-right">W-L-D</th>
+                    <th className="pb-2 px-2 text-right">Win Rate</th>
+                    <th className="pb-2 px-2 text-right">Best Time</th>
+                    <th className="pb-2 px-2 text-right">Fewest Steps</th>
+                    <th className="pb-2 pl-2 text-right">Streak (now / best)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...rows].map(([label, group]) => <StatsRow key={label} label={label} stats={getMatchStats(group)} />)}
+                  {rows.size > 1 && (
+                    <StatsRow label="Overall" stats={getMatchStats(filtered)} />
+                  )}
+                </tbody>
+              </table>
+              <p className="text-xs text-slate-500">Best times count real-time wins only; fewest steps count every win.</p>
+
+              <div>
+                <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Recent Games</h3>
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {recent.map((m, i) => {
+                    const outcome = OUTCOME_STYLES[m.result.winner];
+                    return (
+                      <li key={`${m.playedAt}-${i}`} className="py-1.5 flex items-center gap-3">
+                        <span className={`w-10 font-bold ${outcome.className}`}>{outcome.label}</span>
+                        <span className="flex-1 text-slate-700">
+                          vs {m.algorithm} · {sizeLabel(m)} · {m.mapType}{m.blind && ' · blind'}
+                        </span>
+                        <span className="font-mono text-slate-500">
+                          {m.result.mode === 'TURNS' ? `${m.result.playerSteps} moves` : `${m.result.playerTime.toFixed(1)}s`}
+                        </span>
+                        <span className="text-xs text-slate-400 w-28 text-right">{new Date(m.playedAt).toLocaleDateString()}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onExport}
+            disabled={matches.length === 0}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 disabled:opacity-40 transition-colors"
+          >
+            <Download size={16} /> Export
+          </button>
+          <button
+            onClick={clear}
+            onBlur={() => setConfirmingClear(false)}
+            disabled={matches.length === 0}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold disabled:opacity-40 transition-colors ${
+              confirmingClear ? 'bg-red-600 text-white hover:bg-red-700' : 'text-red-600 hover:bg-red-50'
+            }`}
+          >
+            <Trash2 size={16} /> {confirmingClear ? 'Click again to delete all' : 'Clear History'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
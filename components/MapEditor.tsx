@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AuthoredMap, Coordinate, MapType, MovementRules, TerrainType, TERRAIN_COSTS, GRID_SIZE_LIMITS } from '../types';
+import * as Algorithms from '../services/algorithms';
+import * as Mazes from '../services/mazes';
+import Grid, { TERRAIN_STYLES } from './Grid';
+import CanvasGrid, { shouldUseCanvas } from './CanvasGrid';
+import { Brush, Eraser, Flag, Check, X, Trash2, Shuffle, AlertTriangle } from 'lucide-react';
+
+type EditorTool = 'WALL' | 'ERASE' | 'START' | 'GOAL' | TerrainType;
+
+interface MapEditorProps {
+  initialMap: AuthoredMap;
+  mapType: MapType; // Generator used by "Randomize walls"
+  mapTypeLabel: string;
+  movement: MovementRules; // Decides reachability and the board layout
+  onSave: (map: AuthoredMap) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_SET = new Set<string>();
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const sameCell = (a: Coordinate, b: Coordinate) => a.row === b.row && a.col === b.col;
+
+// Drops everything outside the new bounds and pulls start/goal back inside, clearing any wall they land on
+const resizeMap = (map: AuthoredMap, rows: number, cols: number): AuthoredMap => {
+  const inside = (k: string) => {
+    const [r, c] = k.split(',').map(Number);
+    return r < rows && c < cols;
+  };
+  const start = { row: Math.min(map.start.row, rows - 1), col: Math.min(map.start.col, cols - 1) };
+  let goal = { row: Math.min(map.goal.row, rows - 1), col: Math.min(map.goal.col, cols - 1) };
+  if (sameCell(start, goal)) {
+    goal = sameCell(start, { row: rows - 1, col: cols - 1 }) ? { row: 0, col: 0 } : { row: rows - 1, col: cols - 1 };
+  }
+
+  const walls = new Set([...map.walls].filter(inside));
+  walls.delete(`${start.row},${start.col}`);
+  walls.delete(`${goal.row},${goal.col}`);
+
+  return {
+    rows,
+    cols,
+    walls,
+    terrain: new Map([...map.terrain].filter(([k]) => inside(k))),
+    start,
+    goal
+  };
+};
+
+const MapEditor: React.FC<MapEditorProps> = ({ initialMap, mapType, mapTypeLabel, movement, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<AuthoredMap>(initialMap);
+  const [tool, setTool] = useState<EditorTool>('WALL');
+  // Size inputs are committed on blur/Enter so half-typed numbers don't crop the map
+  const [sizeInput, setSizeInput] = useState({ rows: String(initialMap.rows), cols: String(initialMap.cols) });
+  const paintingRef = useRef(false);
+
+  // Releasing the pointer anywhere (even outside the board) ends a drag stroke
+  useEffect(() => {
+    const stopPainting = () => { paintingRef.current = false; };
+    window.addEventListener('pointerup', stopPainting);
+    return () => window.removeEventListener('pointerup', stopPainting);
+  }, []);
+
+  const applyTool = (cell: Coordinate) => {
+    setDraft(prev => {
+      const key = `${cell.row},${cell.col}`;
+      const isStart = sameCell(cell, prev.start);
+      const isGoal = sameCell(cell, prev.goal);
+      const walls = new Set(prev.walls);
+      const terrain = new Map(prev.terrain);
+
+      switch (tool) {
+        case 'WALL':
+          if (isStart || isGoal) return prev;
+          walls.add(key);
+          terrain.delete(key);
+          break;
+        case 'ERASE':
+          walls.delete(key);
+          terrain.delete(key);
+          break;
+        case 'START':
+          if (isGoal) return prev;
+          walls.delete(key);
+          return { ...prev, walls, start: cell };
+        case 'GOAL':
+          if (isStart) return prev;
+          walls.delete(key);
+          return { ...prev, walls, goal: cell };
+        default:
+          walls.delete(key);
+          if (tool === TerrainType.PLAIN) terrain.delete(key);
+          else terrain.set(key, tool);
+      }
+
+      return { ...prev, walls, terrain };
+    });
+  };
+
+  const handlePointerDown = (cell: Coordinate) => {
+    paintingRef.current = true;
+    applyTool(cell);
+  };
+
+  const handlePointerEnter = (cell: Coordinate) => {
+    if (paintingRef.current) applyTool(cell);
+  };
+
+  const commitResize = () => {
+    const { min, max } = GRID_SIZE_LIMITS;
+    const parse = (value: string, fallback: number) => {
+      const n = Math.round(Number(value));
+      return Number.isNaN(n) || value.trim() === '' ? fallback : clamp(n, min, max);
+    };
+    const rows = parse(sizeInput.rows, draft.rows);
+    const cols = parse(sizeInput.cols, draft.cols);
+    setSizeInput({ rows: String(rows), cols: String(cols) });
+    if (rows !== draft.rows || cols !== draft.cols) setDraft(prev => resizeMap(prev, rows, cols));
+  };
+
+  const randomizeWalls = () => {
+    setDraft(prev => {
+      const walls = Mazes.generateMap(mapType, prev, prev.start).walls;
+      walls.delete(`${prev.goal.row},${prev.goal.col}`);
+      return { ...prev, walls };
+    });
+  };
+
+  const clearMap = () => {
+    setDraft(prev => ({ ...prev, walls: new Set(), terrain: new Map() }));
+  };
+
+  const BoardGrid = shouldUseCanvas(draft) ? CanvasGrid : Grid;
+
+  const goalReachable = Algorithms.getReachableCells({ ...draft, movement }, draft.start).has(`${draft.goal.row},${draft.goal.col}`);
+
+  const toolButton = (value: EditorTool, label: React.ReactNode, swatch?: string) => (
+    <button
+      key={value}
+      onClick={() => setTool(value)}
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold border transition-all ${
+        tool === value
+          ? 'bg-indigo-50 border-indigo-500 text-indigo-700 ring-2 ring-indigo-200'
+          : 'bg-white border-slate-200 hover:border-slate-300 text-slate-600'
+      }`}
+    >
+      {swatch && <span className={`w-3 h-3 rounded-sm border border-slate-300 ${swatch}`}></span>}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-lg border border-slate-100 space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <Brush className="text-indigo-500" /> Map Editor
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-4 py-2 rounded-full font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <X size={18} /> Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!goalReachable}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-6 py-2 rounded-full font-bold shadow-lg shadow-indigo-200 transition-transform active:scale-95"
+          >
+            <Check size={18} /> Use This Map
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase">Rows</span>
+          <input
+            type="number"
+            min={GRID_SIZE_LIMITS.min}
+            max={GRID_SIZE_LIMITS.max}
+            value={sizeInput.rows}
+            onChange={(e) => setSizeInput(prev => ({ ...prev, rows: e.target.value }))}
+            onBlur={commitResize}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitResize(); }}
+            className="mt-1 w-24 p-2 bg-slate-50 border border-slate-300 rounded-lg block"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase">Cols</span>
+          <input
+            type="number"
+            min={GRID_SIZE_LIMITS.min}
+            max={GRID_SIZE_LIMITS.max}
+            value={sizeInput.cols}
+            onChange={(e) => setSizeInput(prev => ({ ...prev, cols: e.target.value }))}
+            onBlur={commitResize}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitResize(); }}
+            className="mt-1 w-24 p-2 bg-slate-50 border border-slate-300 rounded-lg block"
+          />
+        </label>
+        <button
+          onClick={randomizeWalls}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-slate-100 hover:bg-slate-200 text-slate-700 transition-colors"
+        >
+          <Shuffle size={16} /> Walls from {mapTypeLabel}
+        </button>
+        <button
+          onClick={clearMap}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-slate-100 hover:bg-slate-200 text-slate-700 transition-colors"
+        >
+          <Trash2 size={16} /> Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {toolButton('WALL', 'Wall', 'bg-slate-700')}
+        {Object.values(TerrainType).map(t =>
+          toolButton(t, `${t.charAt(0) + t.slice(1).toLowerCase()} (${TERRAIN_COSTS[t]})`, TERRAIN_STYLES[t].base)
+        )}
+        {toolButton('START', 'Start', 'bg-emerald-500')}
+        {toolButton('GOAL', <><Flag size={14} /> Goal</>)}
+        {toolButton('ERASE', <><Eraser size={14} /> Erase</>)}
+      </div>
+
+      {!goalReachable && (
+        <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3 flex items-center gap-2">
+          <AlertTriangle size={16} /> The goal cannot be reached from the start. Open a path before using this map.
+        </p>
+      )}
+
+      <BoardGrid
+        dimensions={draft}
+        startPos={draft.start}
+        goalPos={draft.goal}
+        isPlayerGrid={false}
+        visited={EMPTY_SET}
+        frontier={EMPTY_SET}
+        path={EMPTY_SET}
+        walls={draft.walls}
+        terrain={draft.terrain}
+        topology={movement.topology}
+        revealGoal={true}
+        onCellPointerDown={handlePointerDown}
+        onCellPointerEnter={handlePointerEnter}
+      />
+      <p className="text-xs text-slate-500">Click or drag on the board to paint with the selected tool.</p>
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Play, Pause, SkipBack, SkipForward, ChevronLeft, ChevronRight } from 'lucide-react';
+
+export const BASE_TICK_MS = 500; // Algorithm step interval at 1x speed
+
+// Multipliers of the base tick; 10x matches the classic 20 steps per second
+export const PLAYBACK_SPEEDS = [1, 2, 5, 10, 20];
+
+interface PlaybackControlsProps {
+  index: number;
+  length: number; // Number of AlgoSteps in the history
+  playing: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onSeek: (index: number) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  index,
+  length,
+  playing,
+  speed,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange
+}) => {
+  const lastIndex = Math.max(0, length - 1);
+  const seek = (target: number) => onSeek(Math.min(lastIndex, Math.max(0, target)));
+
+  const buttonClass = "p-2 rounded-lg text-slate-600 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+  return (
+    <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-2">
+      <div className="flex items-center gap-1">
+        <button className={buttonClass} onClick={() => seek(0)} disabled={index === 0} title="Jump to start">
+          <SkipBack size={16} />
+        </button>
+        <button className={buttonClass} onClick={() => seek(index - 1)} disabled={index === 0} title="Step back">
+          <ChevronLeft size={16} />
+        </button>
+        <button
+          className="p-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white transition-colors"
+          onClick={onTogglePlay}
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <button className={buttonClass} onClick={() => seek(index + 1)} disabled={index >= lastIndex} title="Step forward">
+          <ChevronRight size={16} />
+        </button>
+        <button className={buttonClass} onClick={() => seek(lastIndex)} disabled={index >= lastIndex} title="Jump to end">
+          <SkipForward size={16} />
+        </button>
+
+        <span className="ml-auto text-xs font-mono text-slate-500">
+          Step {index + 1} / {length}
+        </span>
+        <select
+          className="ml-2 p-1 text-xs bg-slate-50 border border-slate-300 rounded-lg"
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+        >
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+        </select>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastIndex}
+        value={index}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="w-full accent-purple-600"
+      />
+    </div>
+  );
+};
+
+export default PlaybackControls;
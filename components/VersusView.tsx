@@ -0,0 +1,514 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { AlgorithmType, AlgoStep, AuthoredMap, Coordinate, SearchOptions } from '../types';
+import * as Algorithms from '../services/algorithms';
+import * as Mazes from '../services/mazes';
+import { AlgoTrace } from '../services/trace';
+import { startSearch, SearchHandle } from '../services/searchClient';
+import { createRandom, randomSeed, parseSeed } from '../services/random';
+import { getRunStats } from '../services/stats';
+import { MoveDirection, stepInDirection } from '../services/topology';
+import { Palette } from '../services/accessibility';
+import Grid from './Grid';
+import CanvasGrid, { shouldUseCanvas } from './CanvasGrid';
+import DPad from './DPad';
+import { BASE_TICK_MS } from './PlaybackControls';
+import { Users, ArrowLeft, Play, Flag, Award, Hash } from 'lucide-react';
+
+interface VersusViewProps {
+  algorithm: AlgorithmType; // The optional third racer
+  settings: Mazes.BoardSettings;
+  authoredMap: AuthoredMap | null; // Raced instead of a generated board
+  seedInput: string; // Blank picks a fresh board each race
+  options: SearchOptions;
+  raceSpeed: number; // Algorithm steps per base tick, as in the solo race
+  palette?: Palette;
+  patterns?: boolean;
+  onExit: () => void;
+}
+
+// SHARED: both players race the same board. MIRRORED: player 2 races its left-right mirror image.
+type BoardLayout = 'SHARED' | 'MIRRORED';
+
+interface HumanRacer {
+  pos: Coordinate;
+  trail: Set<string>;
+  steps: number;
+  cost: number;
+  finishedAt: number | null; // Milliseconds after the start; null until the goal
+}
+
+// One row of the final ranking
+interface Standing {
+  name: string;
+  time: number | null; // null: did not finish
+  steps: number | null;
+  cost: number | null;
+  note?: string;
+}
+
+// Each seat gets its own side of the keyboard. Keys are matched lower-cased so Caps Lock can't lock a player out.
+const SEATS: { name: string; keys: string; moves: Record<string, MoveDirection> }[] = [
+  {
+    name: "Player 1",
+    keys: "W A S D · diagonals Q E Z C",
+    moves: { w: 'UP', s: 'DOWN', a: 'LEFT', d: 'RIGHT', q: 'UP_LEFT', e: 'UP_RIGHT', z: 'DOWN_LEFT', c: 'DOWN_RIGHT' }
+  },
+  {
+    name: "Player 2",
+    keys: "Arrow keys · diagonals Home PgUp End PgDn",
+    moves: { arrowup: 'UP', arrowdown: 'DOWN', arrowleft: 'LEFT', arrowright: 'RIGHT', home: 'UP_LEFT', pageup: 'UP_RIGHT', end: 'DOWN_LEFT', pagedown: 'DOWN_RIGHT' }
+  }
+];
+
+const START = { row: 0, col: 0 };
+const EMPTY_STEP: AlgoStep = { visited: new Set(), frontier: new Set(), path: [] };
+const SEAT_STYLES = ['text-blue-700', 'text-emerald-700'];
+
+const formatCost = (cost: number): string => Number.isInteger(cost) ? String(cost) : cost.toFixed(1);
+const formatTime = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const newRacer = (start: Coordinate): HumanRacer => ({
+  pos: start,
+  trail: new Set([`${start.row},${start.col}`]),
+  steps: 0,
+  cost: 0,
+  finishedAt: null
+});
+
+// Fastest first; racers who didn't finish share last place. Equal times share a place.
+const rankStandings = (standings: Standing[]): (Standing & { place: number | null })[] => {
+  const sorted = [...standings].sort((a, b) => (a.time ?? Infinity) - (b.time ?? Infinity));
+  return sorted.map((s, i) => ({
+    ...s,
+    place: s.time === null ? null : sorted.findIndex(o => o.time === s.time) + 1
+  }));
+};
+
+const VersusView: React.FC<VersusViewProps> = ({ algorithm, settings, authoredMap, seedInput, options, raceSpeed, palette, patterns, onExit }) => {
+  const topology = settings.movement.topology;
+  const canMirror = topology !== 'Hex'; // Offset hex rows don't mirror onto the same neighbours
+
+  const [layout, setLayout] = useState<BoardLayout>('SHARED');
+  const [withAlgorithm, setWithAlgorithm] = useState(true);
+  const [showPads, setShowPads] = useState(() => !!window.matchMedia?.('(pointer: coarse)').matches);
+
+  const [phase, setPhase] = useState<'SETUP' | 'COMPUTING' | 'RACING' | 'FINISHED'>('SETUP');
+  const [boards, setBoards] = useState<Mazes.Board[]>([]); // One per human seat
+  const [boardSeed, setBoardSeed] = useState<number | null>(null);
+  const [players, setPlayers] = useState<HumanRacer[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [showResults, setShowResults] = useState(false);
+
+  // The algorithm races on player 1's board, animated at the solo race's real-time pace
+  const [algoTrace, setAlgoTrace] = useState<AlgoTrace | null>(null);
+  const [traceLength, setTraceLength] = useState(0);
+  const [searchDone, setSearchDone] = useState(false);
+  const [searchFailed, setSearchFailed] = useState(false); // The worker reported an error; not the same as finding no path
+  const [algoIndex, setAlgoIndex] = useState(0);
+  const [algoArrival, setAlgoArrival] = useState<number | null>(null);
+
+  const startRef = useRef(0);
+  const searchRef = useRef<SearchHandle | null>(null);
+  const announcedRef = useRef<boolean[]>([]); // Seats whose arrival has been read out
+
+  const cancelSearch = () => {
+    searchRef.current?.cancel();
+    searchRef.current = null;
+  };
+
+  useEffect(() => () => cancelSearch(), []);
+
+  useEffect(() => {
+    if (!canMirror && layout === 'MIRRORED') setLayout('SHARED');
+  }, [canMirror, layout]);
+
+  // --- Race Setup ---
+  const beginRace = () => {
+    setPhase('RACING');
+    startRef.current = Date.now();
+  };
+
+  const startRace = () => {
+    cancelSearch();
+    const seed = parseSeed(seedInput) ?? randomSeed();
+    const board = authoredMap
+      ? Mazes.authoredBoard(authoredMap, settings.movement)
+      : Mazes.generateBoard(settings, START, createRandom(seed));
+    if (!board) {
+      setError(authoredMap
+        ? "The custom map's goal cannot be reached from its start."
+        : "Could not place a reachable goal. Try another map type or a larger grid.");
+      return;
+    }
+    const seatBoards = [board, layout === 'MIRRORED' ? Mazes.mirrorBoard(board) : board];
+
+    setError(null);
+    setBoards(seatBoards);
+    setBoardSeed(authoredMap ? null : seed);
+    setPlayers(seatBoards.map(b => newRacer(b.start)));
+    setAnnouncement('');
+    announcedRef.current = [];
+    setShowResults(false);
+    setAlgoIndex(0);
+    setAlgoArrival(null);
+    setTraceLength(0);
+    setSearchDone(false);
+    setSearchFailed(false);
+
+    if (!withAlgorithm) {
+      setAlgoTrace(null);
+      beginRace();
+      return;
+    }
+
+    // Hold the start until the first steps arrive, so the algorithm doesn't begin a lap behind
+    const trace = new AlgoTrace();
+    setAlgoTrace(trace);
+    setPhase('COMPUTING');
+    let started = false;
+    searchRef.current = startSearch({ algorithm, grid: board.grid, start: board.start, goal: board.goal, options: { ...options, neighborSeed: seed } }, {
+      onBatch: events => {
+        trace.append(events);
+        setTraceLength(trace.length);
+        if (!started) {
+          started = true;
+          beginRace();
+        }
+      },
+      onDone: () => setSearchDone(true),
+      onError: message => {
+        setError(`The ${algorithm} search failed: ${message}`);
+        setSearchFailed(true);
+        setSearchDone(true);
+        if (!started) beginRace();
+      }
+    });
+  };
+
+  const finishRace = () => {
+    cancelSearch();
+    setPhase('FINISHED');
+    setShowResults(true);
+  };
+
+  // --- Algorithm Tick ---
+  useEffect(() => {
+    if (phase !== 'RACING' || !algoTrace) return;
+    const timer = window.setInterval(() => {
+      setAlgoIndex(prev => Math.min(prev + 1, Math.max(0, traceLength - 1)));
+    }, BASE_TICK_MS / raceSpeed);
+    return () => clearInterval(timer);
+  }, [phase, algoTrace, traceLength, raceSpeed]);
+
+  const algoPathIndex = algoTrace?.pathStepIndex ?? -1;
+  useEffect(() => {
+    if (phase !== 'RACING' || algoArrival !== null || algoPathIndex < 0 || algoIndex < algoPathIndex) return;
+    setAlgoArrival(Date.now() - startRef.current);
+    setAnnouncement(`${algorithm} reached the goal.`);
+  }, [phase, algoIndex, algoPathIndex, algoArrival, algorithm]);
+
+  // The race is over once every human is home; an algorithm still searching then can only place behind them
+  useEffect(() => {
+    if (phase === 'RACING' && players.length > 0 && players.every(p => p.finishedAt !== null)) finishRace();
+  }, [phase, players]);
+
+  // --- Controls ---
+  const move = useCallback((seat: number, direction: MoveDirection) => {
+    const board = boards[seat];
+    if (phase !== 'RACING' || !board) return;
+    const now = Date.now() - startRef.current;
+
+    // Worked out from the latest state: on one keyboard, presses often land before the next render
+    setPlayers(prev => prev.map((p, i) => {
+      if (i !== seat || p.finishedAt !== null) return p;
+      // Same neighbour rules as the solo race, including blocked corner cuts
+      const next = stepInDirection(p.pos, direction, topology);
+      if (!next || !Algorithms.getNeighbors(p.pos, board.grid).some(n => n.row === next.row && n.col === next.col)) return p;
+      return {
+        pos: next,
+        trail: new Set(p.trail).add(`${next.row},${next.col}`),
+        steps: p.steps + 1,
+        cost: p.cost + Algorithms.getStepCost(p.pos, next, board.grid),
+        finishedAt: next.row === board.goal.row && next.col === board.goal.col ? now : null
+      };
+    }));
+  }, [phase, boards, topology]);
+
+  // Each arrival is announced once, after the move that made it has landed
+  useEffect(() => {
+    players.forEach((p, i) => {
+      if (p.finishedAt === null || announcedRef.current[i]) return;
+      announcedRef.current[i] = true;
+      setAnnouncement(`${SEATS[i].name} reached the goal in ${formatTime(p.finishedAt)}.`);
+    });
+  }, [players]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (phase !== 'RACING') return;
+      const key = e.key.toLowerCase();
+      const seat = SEATS.findIndex(s => s.moves[key]);
+      if (seat < 0) return;
+      e.preventDefault(); // Arrows and Page keys would otherwise scroll the page
+      move(seat, SEATS[seat].moves[key]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [phase, move]);
+
+  // --- Results ---
+  const algoStep = useMemo<AlgoStep>(() => (
+    algoTrace && traceLength > 0 ? algoTrace.getStep(Math.min(algoIndex, traceLength - 1)) : EMPTY_STEP
+  ), [algoTrace, traceLength, algoIndex]);
+
+  // Replaying the whole trace is only worth it once there is a path to measure, not on every player move
+  const algoStats = useMemo(() => (
+    algoTrace && boards[0] && algoArrival !== null ? getRunStats(algoTrace, boards[0].grid) : null
+  ), [algoTrace, boards, algoArrival]);
+
+  const standings = useMemo(() => {
+    const rows: Standing[] = players.map((p, i) => ({
+      name: SEATS[i].name,
+      time: p.finishedAt,
+      steps: p.steps,
+      cost: p.cost,
+      note: p.finishedAt === null ? 'Did not finish' : undefined
+    }));
+    if (algoTrace) {
+      rows.push({
+        name: algorithm,
+        time: algoArrival,
+        steps: algoStats?.pathLength ?? null,
+        cost: algoStats?.pathCost ?? null,
+        note: algoArrival !== null ? undefined
+          : searchFailed ? 'Search failed'
+          : searchDone && algoTrace.gaveUp ? 'Gave up'
+          : searchDone && algoTrace.exhausted ? 'No path'
+          : 'Still searching'
+      });
+    }
+    return rankStandings(rows);
+  }, [players, algoTrace, algorithm, algoArrival, algoStats, searchDone, searchFailed]);
+
+  const winner = standings[0]?.place === 1 ? standings.filter(s => s.place === 1) : [];
+
+  const BoardGrid = boards[0] && shouldUseCanvas(boards[0].grid) ? CanvasGrid : Grid;
+  const racing = phase === 'RACING';
+  const cellHeader = "pb-2 px-2 text-right";
+  const cell = "py-2 px-2 text-right font-mono";
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-lg border border-slate-100 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Users className="text-indigo-500" /> Two-Player Race
+          </h2>
+          <div className="flex gap-2">
+            {racing ? (
+              <button
+                onClick={finishRace}
+                title="Stop the race; anyone still running does not finish"
+                className="flex items-center gap-2 px-4 py-2 rounded-full font-bold bg-red-50 hover:bg-red-100 text-red-700 transition-colors"
+              >
+                <Flag size={18} /> End Race
+              </button>
+            ) : (
+              <button
+                onClick={startRace}
+                disabled={phase === 'COMPUTING'}
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-full font-bold shadow-lg shadow-indigo-200 transition-transform active:scale-95 disabled:opacity-50"
+              >
+                <Play size={18} /> {phase === 'SETUP' ? 'Start Race' : 'New Race'}
+              </button>
+            )}
+            <button
+              onClick={onExit}
+              className="flex items-center gap-2 px-4 py-2 rounded-full font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+              <ArrowLeft size={18} /> Back to Setup
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 uppercase mb-1">Board</span>
+            <select
+              className="p-2 bg-slate-50 border border-slate-300 rounded-lg"
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as BoardLayout)}
+              disabled={racing || phase === 'COMPUTING'}
+            >
+              <option value="SHARED">Shared: the same board for both</option>
+              <option value="MIRRORED" disabled={!canMirror}>Mirrored: player 2 gets it flipped</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 py-2">
+            <input
+              type="checkbox"
+              checked={withAlgorithm}
+              onChange={(e) => setWithAlgorithm(e.target.checked)}
+              disabled={racing || phase === 'COMPUTING'}
+            />
+            Race {algorithm} as well
+          </label>
+          <label className="flex items-center gap-2 py-2">
+            <input type="checkbox" checked={showPads} onChange={(e) => setShowPads(e.target.checked)} />
+            On-screen pads
+          </label>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          {SEATS.map((seat, i) => (
+            <span key={seat.name} className="mr-4"><b className={SEAT_STYLES[i]}>{seat.name}</b>: {seat.keys}</span>
+          ))}
+        </p>
+        <p className="text-xs text-slate-500">
+          {authoredMap ? 'Custom map from the editor.' : boardSeed !== null && <>Board seed <span className="font-mono font-bold">{boardSeed}</span>.</>}
+          {' '}The goal stays hidden until the race ends.
+          {!canMirror && ' Hex boards can only be shared: their offset rows have no true mirror image.'}
+          {withAlgorithm && ` ${algorithm} searches player 1's board at the race speed chosen in setup.`}
+        </p>
+        {error && <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3">{error}</p>}
+      </div>
+
+      {boards.length > 0 && (
+        <div className={`grid gap-4 md:grid-cols-2 ${algoTrace ? 'xl:grid-cols-3' : ''}`}>
+          {boards.map((board, i) => {
+            const racer = players[i];
+            return (
+              <div key={SEATS[i].name} className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className={`font-bold ${SEAT_STYLES[i]}`}>{SEATS[i].name}</h3>
+                  <span className="text-xs text-slate-500 font-mono">
+                    {racer.steps} steps · cost {formatCost(racer.cost)}
+                    {racer.finishedAt !== null && ` · home in ${formatTime(racer.finishedAt)}`}
+                  </span>
+                </div>
+                <BoardGrid
+                  dimensions={board.grid}
+                  playerPos={racer.pos}
+                  startPos={board.start}
+                  goalPos={board.goal}
+                  isPlayerGrid={true}
+                  visited={racer.trail}
+                  frontier={new Set()}
+                  path={new Set()}
+                  walls={board.grid.walls}
+                  terrain={board.grid.terrain}
+                  topology={topology}
+                  revealGoal={phase === 'FINISHED' || racer.finishedAt !== null}
+                  palette={palette}
+                  patterns={patterns}
+                  label={`${SEATS[i].name}'s board`}
+                />
+                {showPads && phase !== 'FINISHED' && (
+                  <DPad topology={topology} disabled={!racing || racer.finishedAt !== null} onMove={direction => move(i, direction)} />
+                )}
+              </div>
+            );
+          })}
+
+          {algoTrace && (
+            <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-purple-700">{algorithm}</h3>
+                <span className="text-xs text-slate-500">
+                  {algoArrival !== null ? `Home in ${formatTime(algoArrival)}` : searchFailed ? 'Search failed' : phase === 'COMPUTING' ? 'Starting…' : 'Searching…'}
+                </span>
+              </div>
+              <BoardGrid
+                dimensions={boards[0].grid}
+                algoCurrent={algoStep.current}
+                startPos={boards[0].start}
+                goalPos={boards[0].goal}
+                isPlayerGrid={false}
+                visited={algoStep.visited}
+                frontier={algoStep.frontier}
+                backwardVisited={algoStep.backwardVisited}
+                backwardFrontier={algoStep.backwardFrontier}
+                path={new Set((algoStep.path ?? []).map(p => `${p.row},${p.col}`))}
+                walls={boards[0].grid.walls}
+                terrain={boards[0].grid.terrain}
+                topology={topology}
+                revealGoal={phase === 'FINISHED'}
+                algorithmType={algorithm}
+                palette={palette}
+                patterns={patterns}
+                label={`${algorithm}'s board`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Results Modal */}
+      {phase === 'FINISHED' && showResults && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-300">
+          <div role="dialog" aria-modal="true" aria-labelledby="versus-results-title" className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+            <div className="p-6 text-center bg-indigo-600 text-white">
+              <div className="inline-flex p-3 rounded-full bg-white/20 mb-4">
+                <Award size={48} />
+              </div>
+              <h2 id="versus-results-title" className="text-3xl font-black uppercase tracking-wide">
+                {winner.length === 0 ? 'Nobody Finished' : winner.length > 1 ? "It's a Tie!" : `${winner[0].name} Wins!`}
+              </h2>
+            </div>
+
+            <div className="p-6">
+              {boardSeed !== null && (
+                <p className="text-xs text-slate-500 mb-4 flex items-center justify-center gap-1">
+                  <Hash size={12} /> Board seed <span className="font-mono font-bold">{boardSeed}</span>
+                  {layout === 'MIRRORED' && ' (mirrored for player 2)'}
+                </p>
+              )}
+              <table className="w-full text-sm mb-6">
+                <thead>
+                  <tr className="text-xs uppercase text-slate-400">
+                    <th className="pb-2 pr-2 text-left">Place</th>
+                    <th className="pb-2 px-2 text-left">Racer</th>
+                    <th className={cellHeader}>Time</th>
+                    <th className={cellHeader}>Steps</th>
+                    <th className={cellHeader}>Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {standings.map(s => (
+                    <tr key={s.name} className="border-t border-slate-100">
+                      <td className="py-2 pr-2 font-bold text-slate-700">{s.place ?? '–'}</td>
+                      <td className="py-2 px-2 font-bold text-slate-700">{s.name}</td>
+                      <td className={cell}>{s.time !== null ? formatTime(s.time) : <span className="text-slate-400 font-sans text-xs">{s.note}</span>}</td>
+                      <td className={cell}>{s.steps ?? '–'}</td>
+                      <td className={cell}>{s.cost !== null ? formatCost(s.cost) : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setShowResults(false)}
+                  className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+                >
+                  View Boards
+                </button>
+                <button
+                  onClick={startRace}
+                  className="flex-1 py-3 rounded-xl font-bold text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+                >
+                  Race Again
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersusView;
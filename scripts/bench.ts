@@ -0,0 +1,330 @@
+// Headless benchmark for the search algorithms: runs them over generated boards,
+// checks every path they return and reports the figures as a table, CSV or JSON.
+//
+//   npm run bench -- --sizes 15x20,50x50 --maps Open,Prim --seeds 5 --csv bench.csv
+import { writeFileSync } from 'fs';
+import { performance } from 'perf_hooks';
+import { AlgorithmType, GridDimensions, MapType, MovementRules, DEFAULT_MOVEMENT, DEFAULT_NEIGHBOR_ORDER, DEFAULT_TIE_BREAK, NeighborOrder, SearchOptions, TieBreak, TraceEvent, Topology } from '../types';
+import { runAlgorithm, getBaseline, getNeighbors, getPathCost } from '../services/algorithms';
+import { generateBoard, Board } from '../services/mazes';
+import { createRandom } from '../services/random';
+import { AlgoTrace } from '../services/trace';
+import { summarize } from '../services/stats';
+
+const ALGORITHMS: AlgorithmType[] = ['BFS', 'DFS', 'Dijkstra', 'A*', 'Greedy', 'Bidirectional', 'IDDFS', 'IDA*', 'JPS'];
+const MAP_TYPES: MapType[] = ['Open', 'Scattered', 'Backtracker', 'Prim', 'Kruskal', 'Division', 'Caves'];
+const TOPOLOGIES: Topology[] = ['Square4', 'Square8', 'Hex'];
+const TIE_BREAKS: TieBreak[] = ['FIFO', 'LIFO', 'HIGH_G', 'LOW_H'];
+const NEIGHBOR_ORDERS: NeighborOrder[] = ['FIXED', 'CLOCKWISE', 'GOAL_BIASED', 'RANDOM'];
+
+// What each algorithm promises about the path it returns (unless it gives up)
+const GUARANTEES: Record<AlgorithmType, 'steps' | 'cost' | null> = {
+  'BFS': 'steps',
+  'DFS': null,
+  'Dijkstra': 'cost',
+  'A*': 'cost', // The default heuristic is admissible
+  'Greedy': null,
+  'Bidirectional': 'steps',
+  'IDDFS': 'steps',
+  'IDA*': 'cost',
+  'JPS': 'steps'
+};
+
+const EPSILON = 1e-9;
+
+interface BenchOptions {
+  sizes: GridDimensions[];
+  maps: MapType[];
+  algorithms: AlgorithmType[];
+  topologies: Topology[];
+  terrain: ('plain' | 'mixed')[];
+  tieBreak: TieBreak;
+  neighborOrder: NeighborOrder;
+  seeds: number;
+  firstSeed: number;
+  csv?: string;
+  json?: string;
+}
+
+interface BenchRow {
+  algorithm: AlgorithmType;
+  rows: number;
+  cols: number;
+  map: MapType;
+  topology: Topology;
+  terrain: 'plain' | 'mixed';
+  seed: number;
+  runtimeMs: number;
+  expanded: number; // Cells taken off the frontier and expanded; repeated passes of iterative deepening all count
+  frontierPeak: number;
+  pathLength: number | null;
+  pathCost: number | null;
+  optimalSteps: boolean | null; // Null when there is no path to judge
+  optimalCost: boolean | null;
+  gaveUp: boolean;
+  violations: string[];
+}
+
+// --- Arguments ---
+
+const USAGE = `Usage: npm run bench -- [options]
+
+  --sizes 15x20,40x40        Grid sizes (rows x cols)
+  --maps Open,Prim,...       Map generators (${MAP_TYPES.join(', ')})
+  --algorithms BFS,A*,...    Algorithms to run (default: all)
+  --topologies Square4,...   Movement rules (${TOPOLOGIES.join(', ')})
+  --terrain plain,mixed      Plain boards, mixed terrain or both
+  --tie-break FIFO           Priority queue tie-breaking (${TIE_BREAKS.join(', ')})
+  --neighbor-order FIXED     Order neighbours are tried in (${NEIGHBOR_ORDERS.join(', ')}); RANDOM uses the board seed
+  --seeds 3                  Boards per combination
+  --first-seed 1             Seeds used are first-seed, first-seed + 1, ...
+  --csv out.csv              Write one row per run as CSV
+  --json out.json            Write every run and the summary as JSON`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const parseList = <T extends string>(value: string, known: readonly T[], name: string): T[] =>
+  value.split(',').map(item => {
+    const match = known.find(k => k.toLowerCase() === item.trim().toLowerCase());
+    return match ?? fail(`Unknown ${name} "${item}"`);
+  });
+
+const parseCount = (value: string, name: string): number => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : fail(`${name} must be a whole number`);
+};
+
+const parseArgs = (args: string[]): BenchOptions => {
+  const options: BenchOptions = {
+    sizes: [{ rows: 15, cols: 20 }, { rows: 40, cols: 40 }],
+    maps: MAP_TYPES,
+    algorithms: ALGORITHMS,
+    topologies: ['Square4'],
+    terrain: ['plain', 'mixed'],
+    tieBreak: DEFAULT_TIE_BREAK,
+    neighborOrder: DEFAULT_NEIGHBOR_ORDER,
+    seeds: 3,
+    firstSeed: 1
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '--help' || flag === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    const value = args[++i] ?? fail(`Missing value for ${flag}`);
+    switch (flag) {
+      case '--sizes':
+        options.sizes = value.split(',').map(size => {
+          const [rows, cols] = size.split('x').map(Number);
+          return Number.isInteger(rows) && Number.isInteger(cols) && rows > 1 && cols > 1 ? { rows, cols } : fail(`Bad size "${size}"`);
+        });
+        break;
+      case '--maps': options.maps = parseList(value, MAP_TYPES, 'map'); break;
+      case '--algorithms': options.algorithms = parseList(value, ALGORITHMS, 'algorithm'); break;
+      case '--topologies': options.topologies = parseList(value, TOPOLOGIES, 'topology'); break;
+      case '--terrain': options.terrain = parseList(value, ['plain', 'mixed'] as const, 'terrain'); break;
+      case '--tie-break': [options.tieBreak] = parseList(value, TIE_BREAKS, 'tie-break'); break;
+      case '--neighbor-order': [options.neighborOrder] = parseList(value, NEIGHBOR_ORDERS, 'neighbour order'); break;
+      case '--seeds': options.seeds = parseCount(value, '--seeds'); break;
+      case '--first-seed': options.firstSeed = parseCount(value, '--first-seed'); break;
+      case '--csv': options.csv = value; break;
+      case '--json': options.json = value; break;
+      default: fail(`Unknown option ${flag}`);
+    }
+  }
+  return options;
+};
+
+// --- Invariants ---
+
+const sameCell = (a: { row: number; col: number }, b: { row: number; col: number }) => a.row === b.row && a.col === b.col;
+
+const checkPath = (board: Board, trace: AlgoTrace, algorithm: AlgorithmType, baseline: ReturnType<typeof getBaseline>): string[] => {
+  const violations: string[] = [];
+  const path = trace.path;
+
+  if (!path) {
+    if (baseline && !trace.gaveUp) violations.push('no path although the goal is reachable');
+    return violations;
+  }
+  if (!baseline) violations.push('found a path to an unreachable goal');
+  if (!sameCell(path[0], board.start)) violations.push('path does not begin at the start');
+  if (!sameCell(path[path.length - 1], board.goal)) violations.push('path does not end at the goal');
+  for (let i = 1; i < path.length; i++) {
+    if (!getNeighbors(path[i - 1], board.grid).some(n => sameCell(n, path[i]))) {
+      violations.push(`illegal move ${path[i - 1].row},${path[i - 1].col} -> ${path[i].row},${path[i].col}`);
+      break;
+    }
+  }
+
+  if (baseline) {
+    const guarantee = GUARANTEES[algorithm];
+    if (guarantee === 'steps' && path.length - 1 !== baseline.steps) {
+      violations.push(`${path.length - 1} steps where ${baseline.steps} is possible`);
+    }
+    if (guarantee === 'cost' && getPathCost(path, board.grid) - baseline.cost > EPSILON) {
+      violations.push(`cost ${getPathCost(path, board.grid)} where ${baseline.cost} is possible`);
+    }
+  }
+  return violations;
+};
+
+// --- Runs ---
+
+const runOne = (algorithm: AlgorithmType, board: Board, search: SearchOptions): { trace: AlgoTrace; runtimeMs: number; expanded: number } => {
+  // Events are only collected during the timed run; replaying them into a trace happens afterwards
+  const events: TraceEvent[] = [];
+  const began = performance.now();
+  runAlgorithm(algorithm, board.grid, board.start, board.goal, batch => { for (const e of batch) events.push(e); }, search);
+  const runtimeMs = performance.now() - began;
+
+  const trace = new AlgoTrace();
+  trace.append(events);
+  return { trace, runtimeMs, expanded: events.reduce((n, e) => n + (e.type === 'step' && e.action === 'expand' ? 1 : 0), 0) };
+};
+
+const runBench = (options: BenchOptions): BenchRow[] => {
+  const rows: BenchRow[] = [];
+
+  for (const topology of options.topologies) {
+    const movement: MovementRules = { ...DEFAULT_MOVEMENT, topology };
+    // JPS is the 4-connected variant
+    const algorithms = options.algorithms.filter(a => a !== 'JPS' || topology === 'Square4');
+
+    for (const dims of options.sizes) {
+      for (const map of options.maps) {
+        for (const terrain of options.terrain) {
+          for (let seed = options.firstSeed; seed < options.firstSeed + options.seeds; seed++) {
+            const board = generateBoard({ dims, mapType: map, mixedTerrain: terrain === 'mixed', movement }, { row: 0, col: 0 }, createRandom(seed));
+            if (!board) {
+              console.warn(`Skipped ${map} ${dims.rows}x${dims.cols} seed ${seed}: no reachable goal`);
+              continue;
+            }
+            const baseline = getBaseline(board.grid, board.start, board.goal);
+
+            for (const algorithm of algorithms) {
+              const { trace, runtimeMs, expanded } = runOne(algorithm, board, {
+                tieBreak: options.tieBreak,
+                neighborOrder: options.neighborOrder,
+                neighborSeed: seed
+              });
+              const path = trace.path;
+              const cost = path ? getPathCost(path, board.grid) : null;
+              rows.push({
+                algorithm,
+                rows: dims.rows,
+                cols: dims.cols,
+                map,
+                topology,
+                terrain,
+                seed,
+                runtimeMs,
+                expanded,
+                frontierPeak: trace.frontierPeak(trace.length - 1),
+                pathLength: path ? path.length - 1 : null,
+                pathCost: cost,
+                optimalSteps: path && baseline ? path.length - 1 === baseline.steps : null,
+                optimalCost: cost !== null && baseline ? cost - baseline.cost <= EPSILON : null,
+                gaveUp: trace.gaveUp,
+                violations: checkPath(board, trace, algorithm, baseline)
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+  return rows;
+};
+
+// --- Reports ---
+
+const summarizeRows = (rows: BenchRow[]) => {
+  const byAlgorithm = new Map<AlgorithmType, BenchRow[]>();
+  for (const row of rows) byAlgorithm.set(row.algorithm, [...(byAlgorithm.get(row.algorithm) ?? []), row]);
+
+  const mean = (values: number[]) => summarize(values)?.mean ?? null;
+  const share = (flags: (boolean | null)[]) => {
+    const judged = flags.filter((f): f is boolean => f !== null);
+    return judged.length > 0 ? judged.filter(Boolean).length / judged.length : null;
+  };
+
+  return [...byAlgorithm].map(([algorithm, runs]) => ({
+    algorithm,
+    runs: runs.length,
+    solved: runs.filter(r => r.pathLength !== null).length,
+    gaveUp: runs.filter(r => r.gaveUp).length,
+    meanRuntimeMs: mean(runs.map(r => r.runtimeMs)),
+    meanExpanded: mean(runs.map(r => r.expanded)),
+    meanFrontierPeak: mean(runs.map(r => r.frontierPeak)),
+    meanPathLength: mean(runs.flatMap(r => r.pathLength ?? [])),
+    fewestStepsRate: share(runs.map(r => r.optimalSteps)),
+    cheapestCostRate: share(runs.map(r => r.optimalCost)),
+    violations: runs.reduce((n, r) => n + r.violations.length, 0)
+  }));
+};
+
+type Summary = ReturnType<typeof summarizeRows>;
+
+const round = (value: number | null, digits = 1) => value === null ? '-' : Number(value.toFixed(digits));
+const percent = (value: number | null) => value === null ? '-' : `${Math.round(value * 100)}%`;
+
+const printSummary = (summary: Summary) => {
+  console.table(summary.map(s => ({
+    'Algorithm': s.algorithm,
+    'Runs': s.runs,
+    'Solved': s.solved,
+    'Gave up': s.gaveUp,
+    'Runtime ms': round(s.meanRuntimeMs, 2),
+    'Expanded': round(s.meanExpanded),
+    'Frontier peak': round(s.meanFrontierPeak),
+    'Path length': round(s.meanPathLength),
+    'Fewest steps': percent(s.fewestStepsRate),
+    'Cheapest': percent(s.cheapestCostRate),
+    'Violations': s.violations
+  })));
+};
+
+const CSV_COLUMNS: (keyof BenchRow)[] = [
+  'algorithm', 'rows', 'cols', 'map', 'topology', 'terrain', 'seed', 'runtimeMs', 'expanded',
+  'frontierPeak', 'pathLength', 'pathCost', 'optimalSteps', 'optimalCost', 'gaveUp', 'violations'
+];
+
+const toCsv = (rows: BenchRow[]): string => {
+  const cell = (value: BenchRow[keyof BenchRow]) => {
+    const text = Array.isArray(value) ? value.join('; ') : value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [CSV_COLUMNS.join(','), ...rows.map(row => CSV_COLUMNS.map(c => cell(row[c])).join(','))].join('\n') + '\n';
+};
+
+// --- Main ---
+
+const options = parseArgs(process.argv.slice(2));
+const boards = options.topologies.length * options.sizes.length * options.maps.length * options.terrain.length * options.seeds;
+console.log(`Running ${options.algorithms.length} algorithm(s) on up to ${boards} board(s)...`);
+
+const rows = runBench(options);
+const summary = summarizeRows(rows);
+printSummary(summary);
+
+if (options.csv) {
+  writeFileSync(options.csv, toCsv(rows));
+  console.log(`Wrote ${rows.length} runs to ${options.csv}`);
+}
+if (options.json) {
+  writeFileSync(options.json, JSON.stringify({ options, summary, runs: rows }, null, 2));
+  console.log(`Wrote ${rows.length} runs to ${options.json}`);
+}
+
+const failures = rows.filter(r => r.violations.length > 0);
+for (const r of failures) {
+  console.error(`✗ ${r.algorithm} on ${r.map} ${r.rows}x${r.cols} ${r.topology} ${r.terrain} seed ${r.seed}: ${r.violations.join('; ')}`);
+}
+if (failures.length > 0) process.exit(1);
+console.log('All path invariants hold.');
@@ -0,0 +1,106 @@
+import { Coordinate, TerrainType } from '../types';
+
+export type PaletteName = 'DEFAULT' | 'OKABE_ITO' | 'HIGH_CONTRAST';
+
+// Board states that change colour with the palette; walls and terrain keep theirs
+export type PaletteRole = 'PATH' | 'CURRENT' | 'PLAYER' | 'START' | 'GOAL' | 'FRONTIER' | 'BACKWARD_FRONTIER' | 'BACKWARD_VISITED';
+export type Palette = Record<PaletteRole, string>;
+
+export const PALETTES: Record<PaletteName, { label: string; colors: Palette }> = {
+  // The Tailwind colours the boards have always used
+  'DEFAULT': {
+    label: "Standard",
+    colors: {
+      PATH: '#facc15', // yellow-400
+      CURRENT: '#a855f7', // purple-500
+      PLAYER: '#2563eb', // blue-600
+      START: '#10b981', // emerald-500
+      GOAL: '#ef4444', // red-500
+      FRONTIER: '#a5b4fc', // indigo-300
+      BACKWARD_FRONTIER: '#5eead4', // teal-300
+      BACKWARD_VISITED: '#ccfbf1' // teal-100
+    }
+  },
+  // Okabe & Ito's set, told apart with red-green colour blindness
+  'OKABE_ITO': {
+    label: "Colour-blind safe (Okabe–Ito)",
+    colors: {
+      PATH: '#e69f00',
+      CURRENT: '#cc79a7',
+      PLAYER: '#0072b2',
+      START: '#009e73',
+      GOAL: '#d55e00',
+      FRONTIER: '#56b4e9',
+      BACKWARD_FRONTIER: '#f0e442',
+      BACKWARD_VISITED: '#f7f2b4'
+    }
+  },
+  // Strong light/dark differences that survive any colour vision and washed-out screens
+  'HIGH_CONTRAST': {
+    label: "High contrast",
+    colors: {
+      PATH: '#ffd400',
+      CURRENT: '#000000',
+      PLAYER: '#0033cc',
+      START: '#006b3c',
+      GOAL: '#b00000',
+      FRONTIER: '#00e5ff',
+      BACKWARD_FRONTIER: '#ff66ff',
+      BACKWARD_VISITED: '#ffd6ff'
+    }
+  }
+};
+
+// Marks drawn on top of the fill when patterns are on, so these states never rely on colour alone
+export type PatternRole = 'PATH' | 'FRONTIER' | 'VISITED' | 'BACKWARD_FRONTIER' | 'BACKWARD_VISITED';
+export const PATTERN_GLYPHS: Record<PatternRole, string> = {
+  PATH: '●',
+  FRONTIER: '○',
+  VISITED: '·',
+  BACKWARD_FRONTIER: '◇',
+  BACKWARD_VISITED: '◆'
+};
+export const PATTERN_COLOR = '#0f172a'; // slate-900; every patterned fill is light enough for it
+
+export type MotionPreference = 'SYSTEM' | 'REDUCED' | 'FULL';
+
+export interface AccessibilitySettings {
+  palette: PaletteName;
+  patterns: boolean;
+  motion: MotionPreference; // SYSTEM follows prefers-reduced-motion
+}
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = { palette: 'DEFAULT', patterns: false, motion: 'SYSTEM' };
+
+const STORAGE_KEY = 'pathfinding-race:accessibility';
+
+// --- Storage ---
+// Kept per browser, like the match history; unreadable or stale values fall back to the defaults
+
+export const loadAccessibility = (): AccessibilitySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      palette: stored && Object.prototype.hasOwnProperty.call(PALETTES, stored.palette) ? stored.palette : DEFAULT_ACCESSIBILITY.palette,
+      patterns: stored?.patterns === true,
+      motion: stored?.motion === 'REDUCED' || stored?.motion === 'FULL' ? stored.motion : DEFAULT_ACCESSIBILITY.motion
+    };
+  } catch {
+    return DEFAULT_ACCESSIBILITY;
+  }
+};
+
+export const saveAccessibility = (settings: AccessibilitySettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled: the settings still apply for this visit
+  }
+};
+
+// --- Descriptions ---
+// Wording shared by the boards' cell labels and the live announcements
+
+export const describeCell = (cell: Coordinate): string => `Row ${cell.row + 1}, column ${cell.col + 1}`;
+
+export const describeTerrain = (terrain: TerrainType): string => terrain.charAt(0) + terrain.slice(1).toLowerCase();
@@ -1,5 +1,11 @@
-import { Coordinate, GridDimensions, AlgoStep, DIRECTIONS } from '../types';
+import { AlgorithmType, Coordinate, GridDimensions, GridMap, DEFAULT_MOVEMENT, DEFAULT_HEURISTIC, DEFAULT_NEIGHBOR_ORDER, DEFAULT_TIE_BREAK, HeuristicOptions, NeighborOrder, SearchOptions, TerrainType, TERRAIN_COSTS, TieBreak, TraceEvent } from '../types';
 import { PriorityQueue } from './priorityQueue';
+import { TraceRecorder, AlgoTrace } from './trace';
+import { getBearing, getDirections, getDistance, isDiagonalMove } from './topology';
+import { createRandom } from './random';
+
+// Receives streamed trace events (e.g. to post them out of a Web Worker)
+export type TraceBatchHandler = (events: TraceEvent[]) => void;
 
 const coordToString = (c: Coordinate) => `${c.row},${c.col}`;
 const stringToCoord = (s: string): Coordinate => {
@@ -11,6 +17,150 @@ const isValid = (c: Coordinate, dims: GridDimensions): boolean => {
   return c.row >= 0 && c.row < dims.rows && c.col >= 0 && c.col < dims.cols;
 };
 
+// In bounds and not blocked by a wall
+export const isWalkable = (c: Coordinate, grid: GridMap): boolean => {
+  return isValid(c, grid) && !grid.walls.has(coordToString(c));
+};
+
+// Cost of moving into a cell, based on its terrain
+export const getMoveCost = (c: Coordinate, grid: GridMap): number => {
+  return TERRAIN_COSTS[grid.terrain.get(coordToString(c)) ?? TerrainType.PLAIN];
+};
+
+// Cost of one move between neighbours: the terrain entered, scaled up for a priced diagonal
+export const getStepCost = (from: Coordinate, to: Coordinate, grid: GridMap): number => {
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+  const factor = isDiagonalMove(from, to, movement.topology) ? movement.diagonalCost : 1;
+  return getMoveCost(to, grid) * factor;
+};
+
+// Total cost of walking a path (the start cell itself is free)
+export const getPathCost = (path: Coordinate[], grid: GridMap): number => {
+  return path.slice(1).reduce((sum, c, i) => sum + getStepCost(path[i], c, grid), 0);
+};
+
+// Walkable cells one move away under the map's movement rules
+export const getNeighbors = (c: Coordinate, grid: GridMap): Coordinate[] => {
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+  const neighbors: Coordinate[] = [];
+
+  for (const dir of getDirections(c, movement.topology)) {
+    const next: Coordinate = { row: c.row + dir.row, col: c.col + dir.col };
+    if (!isWalkable(next, grid)) continue;
+
+    // Without corner cutting, a diagonal needs both cells it squeezes between to be open
+    if (isDiagonalMove(c, next, movement.topology) && !movement.cutCorners &&
+        (!isWalkable({ row: next.row, col: c.col }, grid) || !isWalkable({ row: c.row, col: next.col }, grid))) {
+      continue;
+    }
+    neighbors.push(next);
+  }
+  return neighbors;
+};
+
+// Neighbours in the order a search tries them. `target` is what goal-biased ordering heads
+// for: the goal, or the start for the backward half of a bidirectional search.
+export type NeighborFn = (c: Coordinate, target: Coordinate) => Coordinate[];
+
+export const getNeighborOrdering = (grid: GridMap, order: NeighborOrder = DEFAULT_NEIGHBOR_ORDER, seed = 0): NeighborFn => {
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+  switch (order) {
+    case 'FIXED':
+      return c => getNeighbors(c, grid);
+    case 'CLOCKWISE':
+      // Starting from straight up, whatever the topology
+      return c => getNeighbors(c, grid)
+        .map(n => ({ n, bearing: getBearing(c, n, movement.topology) }))
+        .sort((a, b) => a.bearing - b.bearing)
+        .map(({ n }) => n);
+    case 'GOAL_BIASED':
+      // Sorting is stable, so equally close neighbours keep their fixed order
+      return (c, target) => getNeighbors(c, grid)
+        .map(n => ({ n, distance: getDistance(n, target, movement) }))
+        .sort((a, b) => a.distance - b.distance)
+        .map(({ n }) => n);
+    case 'RANDOM':
+      // Each cell gets its own shuffle from the seed, so revisiting a cell repeats it
+      return c => {
+        const random = createRandom(seed ^ Math.imul(c.row + 1, 0x9E3779B1) ^ Math.imul(c.col + 1, 0x85EBCA6B));
+        const neighbors = getNeighbors(c, grid);
+        for (let i = neighbors.length - 1; i > 0; i--) {
+          const j = Math.floor(random() * (i + 1));
+          [neighbors[i], neighbors[j]] = [neighbors[j], neighbors[i]];
+        }
+        return neighbors;
+      };
+  }
+};
+
+// Cheapest single move on this map; scales the A* heuristic so it stays admissible
+const getMinMoveCost = (grid: GridMap): number => {
+  let min = TERRAIN_COSTS[TerrainType.PLAIN];
+  grid.terrain.forEach(t => { min = Math.min(min, TERRAIN_COSTS[t]); });
+  return min;
+};
+
+// Distance estimate priced at the cheapest terrain. 'Matched' follows the movement rules
+// (Manhattan, Chebyshev/octile or hex) and never overestimates; the others may, depending on the board.
+export const getHeuristic = (grid: GridMap, type: HeuristicOptions['type'] = 'Matched', overestimate = 1) => {
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+  const minCost = getMinMoveCost(grid);
+  return (a: Coordinate, b: Coordinate): number => {
+    const dRow = Math.abs(a.row - b.row);
+    const dCol = Math.abs(a.col - b.col);
+    switch (type) {
+      case 'Matched': return getDistance(a, b, movement) * minCost;
+      case 'Manhattan': return (dRow + dCol) * minCost;
+      case 'Euclidean': return Math.sqrt(dRow * dRow + dCol * dCol) * minCost;
+      case 'Chebyshev': return Math.max(dRow, dCol) * minCost;
+      case 'Zero': return 0;
+      case 'Overestimate': return getDistance(a, b, movement) * minCost * overestimate;
+    }
+  };
+};
+
+// Whether a heuristic can never overestimate the true remaining cost under the given movement rules
+export const isHeuristicAdmissible = (options: HeuristicOptions, grid: GridMap): boolean => {
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+  switch (options.type) {
+    case 'Matched':
+    case 'Zero':
+      return true;
+    case 'Overestimate':
+      return options.overestimate <= 1;
+    case 'Manhattan':
+      return movement.topology === 'Square4';
+    case 'Euclidean':
+      return movement.topology === 'Square4' || (movement.topology === 'Square8' && movement.diagonalCost >= Math.SQRT2);
+    case 'Chebyshev':
+      return true; // No topology lets one move cover more than one row or column
+  }
+};
+
+const manhattan = (a: Coordinate, b: Coordinate) => Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
+
+// Flood fill from start: every cell the player (or any algorithm) can possibly reach
+export const getReachableCells = (grid: GridMap, start: Coordinate): Set<string> => {
+  const reachable = new Set<string>();
+  if (!isWalkable(start, grid)) return reachable;
+
+  const queue: Coordinate[] = [start];
+  reachable.add(coordToString(start));
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of getNeighbors(current, grid)) {
+      const nextStr = coordToString(next);
+      if (!reachable.has(nextStr)) {
+        reachable.add(nextStr);
+        queue.push(next);
+      }
+    }
+  }
+
+  return reachable;
+};
+
 // Reconstruct path from parent map
 const reconstructPath = (parentMap: Map<string, string>, end: string): Coordinate[] => {
   const path: Coordinate[] = [];
@@ -22,222 +172,766 @@ const reconstructPath = (parentMap: Map<string, string>, end: string): Coordinat
   return path;
 };
 
+// Priority queue entries each step records for the inspector panel; the rest is only counted
+const QUEUE_PREVIEW = 10;
+
+const queueFrame = (pq: PriorityQueue<string>) => ({
+  queue: pq.ordered(QUEUE_PREVIEW).map(({ item, priority }) => ({ key: item, priority })),
+  queueSize: pq.size
+});
+
+// Final frame when the search space runs out before the goal is found
+const EXHAUSTED_FRAME = { path: [], exhausted: true, action: 'exhausted' as const };
+
 // --- BFS ---
-export const runBFS = (dims: GridDimensions, start: Coordinate, goal: Coordinate): AlgoStep[] => {
-  const steps: AlgoStep[] = [];
+export const runBFS = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
   const startStr = coordToString(start);
   const goalStr = coordToString(goal);
   
   const queue: Coordinate[] = [start];
   const visited = new Set<string>();
   const parentMap = new Map<string, string>();
-  const frontier = new Set<string>([startStr]);
 
   visited.add(startStr);
+  trace.visit(startStr);
+  trace.push(startStr);
 
   while (queue.length > 0) {
     const current = queue.shift()!;
     const currStr = coordToString(current);
-    frontier.delete(currStr);
+    trace.pop(currStr);
 
     // Snapshot
-    steps.push({
-      visited: new Set(visited),
-      frontier: new Set(frontier),
-      current: current
-    });
+    trace.step({ current, action: 'expand' });
 
     if (currStr === goalStr) {
-      const path = reconstructPath(parentMap, goalStr);
-      steps.push({ visited: new Set(visited), frontier: new Set(frontier), path });
-      return steps;
+      trace.step({ path: reconstructPath(parentMap, goalStr), action: 'found' });
+      return trace.finish();
     }
 
-    for (const dir of DIRECTIONS) {
-      const next: Coordinate = { row: current.row + dir.row, col: current.col + dir.col };
+    for (const next of neighborsOf(current, goal)) {
       const nextStr = coordToString(next);
 
-      if (isValid(next, dims) && !visited.has(nextStr)) {
+      if (!visited.has(nextStr)) {
         visited.add(nextStr);
+        trace.visit(nextStr);
         parentMap.set(nextStr, currStr);
-        frontier.add(nextStr);
+        trace.push(nextStr);
         queue.push(next);
       }
     }
   }
 
-  return steps;
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
 };
 
-// --- DFS (Recursive) ---
-export const runDFSRecursive = (dims: GridDimensions, start: Coordinate, goal: Coordinate): AlgoStep[] => {
-  const steps: AlgoStep[] = [];
-  const startStr = coordToString(start);
+// --- DFS ---
+// Explicit stack rather than recursion, so a long corridor on a big board can't overflow the call stack
+export const runDFS = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
   const goalStr = coordToString(goal);
-  
+
   const visited = new Set<string>();
   const parentMap = new Map<string, string>();
-  // We track the recursion stack loosely as "frontier" for viz
-  const recursionStack = new Set<string>();
-  
-  let found = false;
 
-  const dfs = (current: Coordinate, depth: number) => {
-    if (found) return;
+  // Each frame remembers which neighbour to try next, as a recursive call's loop would
+  const stack: { cell: Coordinate; key: string; neighbors: Coordinate[]; next: number }[] = [];
 
-    const currStr = coordToString(current);
-    visited.add(currStr);
-    recursionStack.add(currStr);
-
-    steps.push({
-      visited: new Set(visited),
-      frontier: new Set(recursionStack),
-      current: current,
-      depth: depth
-    });
+  const enter = (cell: Coordinate, key: string): boolean => {
+    stack.push({ cell, key, neighbors: neighborsOf(cell, goal), next: 0 });
+    visited.add(key);
+    trace.visit(key);
+    trace.push(key); // The stack doubles as the "frontier" for viz
+    trace.step({ current: cell, depth: stack.length - 1, action: 'expand' });
+    return key === goalStr;
+  };
 
-    if (currStr === goalStr) {
-      found = true;
-      const path = reconstructPath(parentMap, goalStr);
-      steps.push({ visited: new Set(visited), frontier: new Set(recursionStack), path });
-      return;
-    }
+  if (enter(start, coordToString(start))) {
+    trace.step({ path: [start], action: 'found' });
+    return trace.finish();
+  }
 
-    for (const dir of DIRECTIONS) {
-      if (found) return;
-      
-      const next: Coordinate = { row: current.row + dir.row, col: current.col + dir.col };
-      const nextStr = coordToString(next);
+  while (stack.length > 0) {
+    const top = stack[stack.length - 1];
 
-      if (isValid(next, dims) && !visited.has(nextStr)) {
-        parentMap.set(nextStr, currStr);
-        dfs(next, depth + 1);
-      }
+    if (top.next === top.neighbors.length) {
+      // Backtracking visualization
+      stack.pop();
+      trace.backtrack(top.key);
+      trace.step({ current: top.cell, depth: stack.length - 1, action: 'backtrack' });
+      continue;
     }
 
-    // Backtracking visualization
-    recursionStack.delete(currStr);
-    steps.push({
-        visited: new Set(visited),
-        frontier: new Set(recursionStack),
-        current: current,
-        depth: depth - 1
-    });
-  };
+    const next = top.neighbors[top.next++];
+    const nextStr = coordToString(next);
+    if (visited.has(nextStr)) continue;
+
+    parentMap.set(nextStr, top.key);
+    if (enter(next, nextStr)) {
+      trace.step({ path: reconstructPath(parentMap, goalStr), action: 'found' });
+      return trace.finish();
+    }
+  }
 
-  dfs(start, 0);
-  return steps;
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
 };
 
 // --- Dijkstra ---
-export const runDijkstra = (dims: GridDimensions, start: Coordinate, goal: Coordinate): AlgoStep[] => {
-  const steps: AlgoStep[] = [];
+export const runDijkstra = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  tieBreak: TieBreak = DEFAULT_TIE_BREAK,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
   const startStr = coordToString(start);
   const goalStr = coordToString(goal);
 
-  const pq = new PriorityQueue<string>();
-  pq.enqueue(startStr, 0);
+  const pq = new PriorityQueue<string>(tieBreak);
+  pq.enqueue(startStr, 0, { g: 0 });
+  trace.push(startStr);
 
   const distances = new Map<string, number>();
   distances.set(startStr, 0);
+  trace.relax(startStr, 0);
   
   const parentMap = new Map<string, string>();
-  const visited = new Set<string>();
-  const frontier = new Set<string>([startStr]);
 
   while (!pq.isEmpty()) {
     const currStr = pq.dequeue()!;
     const current = stringToCoord(currStr);
-    frontier.delete(currStr);
-    visited.add(currStr);
-
-    steps.push({
-      visited: new Set(visited),
-      frontier: new Set(frontier),
-      current: current,
-      costMap: new Map(distances)
-    });
+    trace.pop(currStr);
+    trace.visit(currStr);
+    trace.step({ current, action: 'expand', ...queueFrame(pq) });
 
     if (currStr === goalStr) {
-      const path = reconstructPath(parentMap, goalStr);
-      steps.push({ visited: new Set(visited), frontier: new Set(frontier), path, costMap: new Map(distances) });
-      return steps;
+      trace.step({ path: reconstructPath(parentMap, goalStr), action: 'found', ...queueFrame(pq) });
+      return trace.finish();
     }
 
-    for (const dir of DIRECTIONS) {
-      const next: Coordinate = { row: current.row + dir.row, col: current.col + dir.col };
+    for (const next of neighborsOf(current, goal)) {
       const nextStr = coordToString(next);
 
-      if (isValid(next, dims)) {
-        const newDist = (distances.get(currStr) || 0) + 1; // Unweighted edge = 1
-        
-        if (newDist < (distances.get(nextStr) ?? Infinity)) {
-          distances.set(nextStr, newDist);
-          parentMap.set(nextStr, currStr);
-          pq.enqueue(nextStr, newDist);
-          frontier.add(nextStr);
+      const newDist = (distances.get(currStr) || 0) + getStepCost(current, next, grid);
+
+      if (newDist < (distances.get(nextStr) ?? Infinity)) {
+        distances.set(nextStr, newDist);
+        trace.relax(nextStr, newDist);
+        parentMap.set(nextStr, currStr);
+        // Move a queued cell up rather than queue a duplicate that would pop again later
+        if (pq.contains(nextStr)) {
+          pq.decreaseKey(nextStr, newDist, { g: newDist });
+        } else {
+          pq.enqueue(nextStr, newDist, { g: newDist });
+          trace.push(nextStr);
         }
       }
     }
   }
 
-  return steps;
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
 };
 
 // --- A* ---
-export const runAStar = (dims: GridDimensions, start: Coordinate, goal: Coordinate): AlgoStep[] => {
-  const steps: AlgoStep[] = [];
+// With weight ε > 1 (weighted A*) or an overestimating heuristic the search gets greedier:
+// usually fewer nodes, but the path is no longer guaranteed to be the cheapest
+export const runAStar = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  options: HeuristicOptions = DEFAULT_HEURISTIC,
+  tieBreak: TieBreak = DEFAULT_TIE_BREAK,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
   const startStr = coordToString(start);
   const goalStr = coordToString(goal);
 
-  const heuristic = (a: Coordinate, b: Coordinate) => Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
+  const heuristic = getHeuristic(grid, options.type, options.overestimate);
 
-  const pq = new PriorityQueue<string>();
-  pq.enqueue(startStr, 0);
+  const pq = new PriorityQueue<string>(tieBreak);
+  pq.enqueue(startStr, 0, { g: 0, h: heuristic(start, goal) });
+  trace.push(startStr);
 
   const gScore = new Map<string, number>(); // Cost from start
   gScore.set(startStr, 0);
+  trace.relax(startStr, 0);
 
   const parentMap = new Map<string, string>();
-  const visited = new Set<string>();
-  const frontier = new Set<string>([startStr]);
 
   while (!pq.isEmpty()) {
     const currStr = pq.dequeue()!;
     const current = stringToCoord(currStr);
     
-    frontier.delete(currStr);
-    visited.add(currStr);
-
-    steps.push({
-      visited: new Set(visited),
-      frontier: new Set(frontier),
-      current: current,
-      costMap: new Map(gScore)
+    trace.pop(currStr);
+    trace.visit(currStr);
+    trace.step({ current, action: 'expand', ...queueFrame(pq) });
+
+    if (currStr === goalStr) {
+      trace.step({ path: reconstructPath(parentMap, goalStr), action: 'found', ...queueFrame(pq) });
+      return trace.finish();
+    }
+
+    for (const next of neighborsOf(current, goal)) {
+      const nextStr = coordToString(next);
+
+      const tentativeG = (gScore.get(currStr) || 0) + getStepCost(current, next, grid);
+
+      if (tentativeG < (gScore.get(nextStr) ?? Infinity)) {
+        parentMap.set(nextStr, currStr);
+        gScore.set(nextStr, tentativeG);
+        trace.relax(nextStr, tentativeG);
+        const h = heuristic(next, goal);
+        const fScore = tentativeG + options.weight * h;
+        if (pq.contains(nextStr)) {
+          pq.decreaseKey(nextStr, fScore, { g: tentativeG, h });
+        } else {
+          pq.enqueue(nextStr, fScore, { g: tentativeG, h });
+          trace.push(nextStr);
+        }
+      }
+    }
+  }
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// --- Greedy Best-First ---
+// Always expands the frontier cell that looks closest to the goal, ignoring the cost so far
+export const runGreedy = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  tieBreak: TieBreak = DEFAULT_TIE_BREAK,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
+  const startStr = coordToString(start);
+  const goalStr = coordToString(goal);
+
+  // Only the ordering matters here, so the unscaled distance will do
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+  const distanceToGoal = (c: Coordinate) => getDistance(c, goal, movement);
+
+  const pq = new PriorityQueue<string>(tieBreak);
+  pq.enqueue(startStr, distanceToGoal(start), { h: distanceToGoal(start) });
+  trace.push(startStr);
+
+  const discovered = new Set<string>([startStr]);
+  const parentMap = new Map<string, string>();
+
+  while (!pq.isEmpty()) {
+    const currStr = pq.dequeue()!;
+    const current = stringToCoord(currStr);
+
+    trace.pop(currStr);
+    trace.visit(currStr);
+    trace.step({ current, action: 'expand', ...queueFrame(pq) });
+
+    if (currStr === goalStr) {
+      trace.step({ path: reconstructPath(parentMap, goalStr), action: 'found', ...queueFrame(pq) });
+      return trace.finish();
+    }
+
+    for (const next of neighborsOf(current, goal)) {
+      const nextStr = coordToString(next);
+
+      if (!discovered.has(nextStr)) {
+        discovered.add(nextStr);
+        parentMap.set(nextStr, currStr);
+        const h = distanceToGoal(next);
+        pq.enqueue(nextStr, h, { h });
+        trace.push(nextStr);
+      }
+    }
+  }
+
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// --- Nearest-Frontier Exploration ---
+// Greedy without a goal to aim for: always walk to the known-but-unexplored cell
+// closest to where the search is standing now, like a robot mapping a building
+export const runNearestFrontier = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
+  const startStr = coordToString(start);
+  const goalStr = coordToString(goal);
+  const movement = grid.movement ?? DEFAULT_MOVEMENT;
+
+  const frontier: Coordinate[] = [start]; // In discovery order, so ties go to the oldest cell
+  const discovered = new Set<string>([startStr]);
+  const parentMap = new Map<string, string>();
+  trace.push(startStr);
+
+  let position = start;
+  while (frontier.length > 0) {
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    frontier.forEach((c, i) => {
+      const d = getDistance(c, position, movement);
+      if (d < bestDistance) {
+        bestDistance = d;
+        bestIndex = i;
+      }
     });
 
+    const current = frontier.splice(bestIndex, 1)[0];
+    const currStr = coordToString(current);
+    trace.pop(currStr);
+    trace.visit(currStr);
+    trace.step({ current, action: 'expand' });
+
     if (currStr === goalStr) {
-      const path = reconstructPath(parentMap, goalStr);
-      steps.push({ visited: new Set(visited), frontier: new Set(frontier), path, costMap: new Map(gScore) });
-      return steps;
+      trace.step({ path: reconstructPath(parentMap, goalStr), action: 'found' });
+      return trace.finish();
     }
 
-    for (const dir of DIRECTIONS) {
-      const next: Coordinate = { row: current.row + dir.row, col: current.col + dir.col };
+    position = current;
+    for (const next of neighborsOf(current, goal)) {
       const nextStr = coordToString(next);
+      if (!discovered.has(nextStr)) {
+        discovered.add(nextStr);
+        parentMap.set(nextStr, currStr);
+        frontier.push(next);
+        trace.push(nextStr);
+      }
+    }
+  }
+
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// --- Bidirectional BFS ---
+// Grows one BFS layer at a time from each end, alternating, until the two halves touch
+export const runBidirectionalBFS = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
+  const startStr = coordToString(start);
+  const goalStr = coordToString(goal);
+
+  interface Side {
+    queue: Coordinate[];
+    distances: Map<string, number>;
+    parentMap: Map<string, string>;
+    backward: boolean;
+  }
+  // Already there: without this the two halves would "meet" one step away and walk there and back
+  if (startStr === goalStr) {
+    trace.visit(startStr);
+    trace.step({ current: start, path: [start], action: 'found' });
+    return trace.finish();
+  }
+
+  const forward: Side = { queue: [start], distances: new Map([[startStr, 0]]), parentMap: new Map(), backward: false };
+  const backward: Side = { queue: [goal], distances: new Map([[goalStr, 0]]), parentMap: new Map(), backward: true };
+
+  trace.visit(startStr);
+  trace.push(startStr);
+  trace.visit(goalStr, true);
+  trace.push(goalStr, true);
+
+  let side = forward;
+  let other = backward;
+
+  while (forward.queue.length > 0 && backward.queue.length > 0) {
+    // The shortest route crosses the first layer where the halves meet, but not
+    // necessarily at the first meeting cell, so the whole layer is expanded
+    let meeting: string | null = null;
+    let best = Infinity;
+
+    const layer = side.queue;
+    side.queue = [];
+    for (const current of layer) {
+      const currStr = coordToString(current);
+      trace.pop(currStr, side.backward);
+      trace.step({ current, action: 'expand' });
+
+      for (const next of neighborsOf(current, side.backward ? start : goal)) {
+        const nextStr = coordToString(next);
+
+        if (!side.distances.has(nextStr)) {
+          side.distances.set(nextStr, side.distances.get(currStr)! + 1);
+          side.parentMap.set(nextStr, currStr);
+          trace.visit(nextStr, side.backward);
+          trace.push(nextStr, side.backward);
+          side.queue.push(next);
+
+          const otherDistance = other.distances.get(nextStr);
+          if (otherDistance !== undefined && side.distances.get(nextStr)! + otherDistance < best) {
+            best = side.distances.get(nextStr)! + otherDistance;
+            meeting = nextStr;
+          }
+        }
+      }
+    }
+
+    if (meeting) {
+      const toMeeting = reconstructPath(forward.parentMap, meeting);
+      const fromMeeting = reconstructPath(backward.parentMap, meeting).reverse();
+      trace.step({ path: toMeeting.concat(fromMeeting.slice(1)), action: 'found' });
+      return trace.finish();
+    }
+
+    [side, other] = [other, side];
+  }
+
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// Iterative deepening re-expands the same cells every pass; past this many expansions
+// the search gives up rather than build a trace no race could ever play through
+const MAX_DEEPENING_STEPS = 200000;
+
+// Final frame when an iterative deepening search runs out of its step budget
+const GAVE_UP_FRAME = { path: [], exhausted: true, gaveUp: true, action: 'gave-up' as const };
+
+// Depth-first probe under a bound, used by both iterative deepening searches.
+// `bound` caps the cost of each move sequence; a cell is only re-entered when reached
+// more cheaply than before in this iteration, which keeps grid searches tractable.
+// Returns the path if found, otherwise the smallest cost that exceeded the bound.
+const runBoundedProbe = (
+  trace: TraceRecorder,
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  bound: number,
+  budget: { steps: number },
+  moveCost: (from: Coordinate, to: Coordinate) => number,
+  estimate: (c: Coordinate) => number,
+  neighborsOf: NeighborFn
+): { path?: Coordinate[]; nextBound: number; gaveUp?: boolean } => {
+  const startStr = coordToString(start);
+  const goalStr = coordToString(goal);
+  const bestCost = new Map<string, number>([[startStr, 0]]);
+  const parentMap = new Map<string, string>();
+  let nextBound = Infinity;
+
+  // Explicit stack: each frame remembers which neighbour to try next
+  const stack: { cell: Coordinate; key: string; cost: number; neighbors: Coordinate[]; next: number }[] = [];
+
+  const enter = (cell: Coordinate, key: string, cost: number): boolean => {
+    stack.push({ cell, key, cost, neighbors: neighborsOf(cell, goal), next: 0 });
+    trace.visit(key);
+    trace.push(key);
+    trace.relax(key, cost);
+    trace.step({ current: cell, depth: stack.length - 1, action: 'expand', bound });
+    budget.steps--;
+    return key === goalStr;
+  };
+
+  if (enter(start, startStr, 0)) return { path: [start], nextBound };
+
+  while (stack.length > 0) {
+    if (budget.steps <= 0) return { nextBound, gaveUp: true };
+    const top = stack[stack.length - 1];
+
+    if (top.next === top.neighbors.length) {
+      stack.pop();
+      trace.backtrack(top.key);
+      continue;
+    }
+
+    const next = top.neighbors[top.next++];
+    const nextStr = coordToString(next);
+
+    const cost = top.cost + moveCost(top.cell, next);
+    const f = cost + estimate(next);
+    if (f > bound) {
+      nextBound = Math.min(nextBound, f);
+      continue;
+    }
+    if (cost >= (bestCost.get(nextStr) ?? Infinity)) continue;
+
+    bestCost.set(nextStr, cost);
+    parentMap.set(nextStr, top.key);
+    if (enter(next, nextStr, cost)) return { path: reconstructPath(parentMap, goalStr), nextBound };
+  }
+
+  return { nextBound };
+};
+
+// --- Iterative Deepening DFS ---
+// Depth-limited DFS restarted with limit 0, 1, 2, ...: DFS memory with BFS's fewest-moves answer
+export const runIDDFS = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
+  const budget = { steps: MAX_DEEPENING_STEPS };
+
+  let limit = 0;
+  while (limit < Infinity) {
+    if (limit > 0) trace.reset();
+    const { path, nextBound, gaveUp } = runBoundedProbe(trace, grid, start, goal, limit, budget, () => 1, () => 0, neighborsOf);
+    if (path) {
+      trace.step({ path, action: 'found', bound: limit });
+      return trace.finish();
+    }
+    if (gaveUp) {
+      trace.step(GAVE_UP_FRAME);
+      return trace.finish();
+    }
+    limit = nextBound; // Infinity when nothing was cut off: every reachable cell has been seen
+  }
+
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// --- IDA* ---
+// Iterative deepening on f = g + h: each pass raises the bound to the smallest f that exceeded it
+// Blind, the estimate is zero and each pass simply extends the cost budget
+export const runIDAStar = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  blind = false,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
+  const distance = getHeuristic(grid, blind ? 'Zero' : 'Matched');
+  const heuristic = (c: Coordinate) => distance(c, goal);
+  const budget = { steps: MAX_DEEPENING_STEPS };
+
+  let bound = heuristic(start);
+  let first = true;
+  while (bound < Infinity) {
+    if (!first) trace.reset();
+    first = false;
+    const { path, nextBound, gaveUp } = runBoundedProbe(trace, grid, start, goal, bound, budget, (from, to) => getStepCost(from, to, grid), heuristic, neighborsOf);
+    if (path) {
+      trace.step({ path, action: 'found', bound });
+      return trace.finish();
+    }
+    if (gaveUp) {
+      trace.step(GAVE_UP_FRAME);
+      return trace.finish();
+    }
+    bound = nextBound;
+  }
+
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// --- Jump Point Search ---
+// A* that skips along straight runs and only stops at cells where a turn could matter
+// (4-connected variant, so it is only offered for 4-way movement). It assumes every
+// move costs the same, so terrain is ignored.
+// Blind, the open list is ordered by distance travelled only; scans still notice the goal as they pass over it.
+export const runJPS = (
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  blind = false,
+  tieBreak: TieBreak = DEFAULT_TIE_BREAK,
+  neighborsOf: NeighborFn = c => getNeighbors(c, grid)
+): AlgoTrace => {
+  const trace = new TraceRecorder(onBatch);
+  const estimate = (c: Coordinate) => blind ? 0 : manhattan(c, goal);
+  const startStr = coordToString(start);
+  const goalStr = coordToString(goal);
+
+  const open = (row: number, col: number) => isWalkable({ row, col }, grid);
+  const isGoal = (row: number, col: number) => row === goal.row && col === goal.col;
 
-      if (isValid(next, dims)) {
-        const tentativeG = (gScore.get(currStr) || 0) + 1;
+  // Scans along a row; stops at the goal or next to an opening that was walled off one step back
+  const jumpHorizontal = (row: number, col: number, dc: number): Coordinate | null => {
+    for (let c = col + dc; open(row, c); c += dc) {
+      trace.visit(`${row},${c}`);
+      if (isGoal(row, c)) return { row, col: c };
+      if ((open(row - 1, c) && !open(row - 1, c - dc)) || (open(row + 1, c) && !open(row + 1, c - dc))) {
+        return { row, col: c };
+      }
+    }
+    return null;
+  };
+
+  // Scans along a column; every cell whose row scan finds something is a jump point too
+  const jumpVertical = (row: number, col: number, dr: number): Coordinate | null => {
+    for (let r = row + dr; open(r, col); r += dr) {
+      trace.visit(`${r},${col}`);
+      if (isGoal(r, col)) return { row: r, col };
+      if ((open(r, col - 1) && !open(r - dr, col - 1)) || (open(r, col + 1) && !open(r - dr, col + 1))) {
+        return { row: r, col };
+      }
+      if (jumpHorizontal(r, col, 1) || jumpHorizontal(r, col, -1)) return { row: r, col };
+    }
+    return null;
+  };
+
+  // Fills in the straight runs between consecutive jump points
+  const expandPath = (jumpPoints: Coordinate[]): Coordinate[] => {
+    const path: Coordinate[] = [jumpPoints[0]];
+    for (let i = 1; i < jumpPoints.length; i++) {
+      const to = jumpPoints[i];
+      let { row, col } = path[path.length - 1];
+      while (row !== to.row || col !== to.col) {
+        row += Math.sign(to.row - row);
+        col += Math.sign(to.col - col);
+        path.push({ row, col });
+      }
+    }
+    return path;
+  };
 
-        if (tentativeG < (gScore.get(nextStr) ?? Infinity)) {
-          parentMap.set(nextStr, currStr);
-          gScore.set(nextStr, tentativeG);
-          const fScore = tentativeG + heuristic(next, goal);
-          pq.enqueue(nextStr, fScore);
-          frontier.add(nextStr);
+  const pq = new PriorityQueue<string>(tieBreak);
+  pq.enqueue(startStr, estimate(start), { g: 0, h: estimate(start) });
+  trace.push(startStr);
+
+  const gScore = new Map<string, number>([[startStr, 0]]);
+  trace.relax(startStr, 0);
+  const closed = new Set<string>();
+  const parentMap = new Map<string, string>();
+
+  while (!pq.isEmpty()) {
+    const currStr = pq.dequeue()!;
+    closed.add(currStr);
+    const current = stringToCoord(currStr);
+
+    trace.pop(currStr);
+    trace.visit(currStr);
+
+    if (currStr === goalStr) {
+      trace.step({ current, action: 'expand', ...queueFrame(pq) });
+      trace.step({ path: expandPath(reconstructPath(parentMap, goalStr)), action: 'found', ...queueFrame(pq) });
+      return trace.finish();
+    }
+
+    // Prune to the directions a shortest path could continue in: ahead or sideways.
+    // Scans are tried in neighbour order; a walled-off direction has nothing to jump to anyway.
+    const parentStr = parentMap.get(currStr);
+    let directions = neighborsOf(current, goal).map(n => ({ row: n.row - current.row, col: n.col - current.col }));
+    if (parentStr) {
+      const parent = stringToCoord(parentStr);
+      const dr = Math.sign(current.row - parent.row);
+      const dc = Math.sign(current.col - parent.col);
+      directions = directions.filter(d => d.row !== -dr || d.col !== -dc);
+    }
+
+    for (const dir of directions) {
+      const jumpPoint = dir.row === 0
+        ? jumpHorizontal(current.row, current.col, dir.col)
+        : jumpVertical(current.row, current.col, dir.row);
+      if (!jumpPoint) continue;
+
+      const jumpStr = coordToString(jumpPoint);
+      const tentativeG = gScore.get(currStr)! + manhattan(current, jumpPoint);
+      if (!closed.has(jumpStr) && tentativeG < (gScore.get(jumpStr) ?? Infinity)) {
+        gScore.set(jumpStr, tentativeG);
+        trace.relax(jumpStr, tentativeG);
+        parentMap.set(jumpStr, currStr);
+        const h = estimate(jumpPoint);
+        if (pq.contains(jumpStr)) {
+          pq.decreaseKey(jumpStr, tentativeG + h, { g: tentativeG, h });
+        } else {
+          pq.enqueue(jumpStr, tentativeG + h, { g: tentativeG, h });
+          trace.push(jumpStr);
         }
       }
     }
+
+    trace.step({ current, action: 'expand', ...queueFrame(pq) });
+  }
+
+  trace.step(EXHAUSTED_FRAME);
+  return trace.finish();
+};
+
+// --- Baseline ---
+// Reference answers for judging any search on this board: the cheapest cost (Dijkstra),
+// the fewest steps (BFS) and how many cells Dijkstra expanded to prove its answer
+export interface SearchBaseline {
+  cost: number;
+  steps: number;
+  visited: number;
+}
+
+export const getBaseline = (grid: GridMap, start: Coordinate, goal: Coordinate): SearchBaseline | null => {
+  const dijkstra = runDijkstra(grid, start, goal);
+  const bfs = runBFS(grid, start, goal);
+  if (!dijkstra.path || !bfs.path) return null;
+  return {
+    cost: getPathCost(dijkstra.path, grid),
+    steps: bfs.path.length - 1,
+    visited: dijkstra.getStep(dijkstra.length - 1).visited.size
+  };
+};
+
+// --- Dispatcher ---
+export const runAlgorithm = (
+  algorithm: AlgorithmType,
+  grid: GridMap,
+  start: Coordinate,
+  goal: Coordinate,
+  onBatch?: TraceBatchHandler,
+  options: SearchOptions = {}
+): AlgoTrace => {
+  // Goal-biased ordering aims at the goal too, so blind it falls back to the fixed order
+  const order = options.blind && options.neighborOrder === 'GOAL_BIASED' ? DEFAULT_NEIGHBOR_ORDER : options.neighborOrder;
+  const neighborsOf = getNeighborOrdering(grid, order, options.neighborSeed);
+
+  // Blind searches may only compare keys with the goal, so anything that aims at it
+  // falls back to exploring: A* without a heuristic, Greedy by nearest frontier cell,
+  // and Bidirectional (which cannot start from an unknown goal) as plain BFS
+  if (options.blind) {
+    switch (algorithm) {
+      case 'A*': return runAStar(grid, start, goal, onBatch, { ...DEFAULT_HEURISTIC, type: 'Zero' }, options.tieBreak, neighborsOf);
+      case 'Greedy': return runNearestFrontier(grid, start, goal, onBatch, neighborsOf);
+      case 'Bidirectional': return runBFS(grid, start, goal, onBatch, neighborsOf);
+      case 'IDA*': return runIDAStar(grid, start, goal, onBatch, true, neighborsOf);
+      case 'JPS': return runJPS(grid, start, goal, onBatch, true, options.tieBreak, neighborsOf);
+    }
   }
-  return steps;
-};
\ No newline at end of file
+
+  switch (algorithm) {
+    case 'BFS': return runBFS(grid, start, goal, onBatch, neighborsOf);
+    case 'DFS': return runDFS(grid, start, goal, onBatch, neighborsOf);
+    case 'Dijkstra': return runDijkstra(grid, start, goal, onBatch, options.tieBreak, neighborsOf);
+    case 'A*': return runAStar(grid, start, goal, onBatch, options.heuristic, options.tieBreak, neighborsOf);
+    case 'Greedy': return runGreedy(grid, start, goal, onBatch, options.tieBreak, neighborsOf);
+    case 'Bidirectional': return runBidirectionalBFS(grid, start, goal, onBatch, neighborsOf);
+    case 'IDDFS': return runIDDFS(grid, start, goal, onBatch, neighborsOf);
+    case 'IDA*': return runIDAStar(grid, start, goal, onBatch, false, neighborsOf);
+    case 'JPS': return runJPS(grid, start, goal, onBatch, false, options.tieBreak, neighborsOf);
+  }
+};
@@ -0,0 +1,260 @@
+import {
+  AlgorithmType,
+  AuthoredMap,
+  Coordinate,
+  GRID_SIZE_LIMITS,
+  HeuristicOptions,
+  HeuristicType,
+  MapType,
+  MovementRules,
+  NeighborOrder,
+  DEFAULT_NEIGHBOR_ORDER,
+  RaceMode,
+  TerrainType,
+  TieBreak,
+  DEFAULT_TIE_BREAK,
+  Topology
+} from '../types';
+
+// Everything needed to rebuild a round on someone else's machine
+export interface ChallengeConfig {
+  seed: number;
+  rows: number;
+  cols: number;
+  mapType: MapType;
+  mixedTerrain: boolean;
+  algorithm: AlgorithmType;
+  raceMode: RaceMode;
+  raceSpeed: number;
+  expansionsPerMove: number;
+  movement: MovementRules;
+  heuristic: HeuristicOptions;
+  tieBreak: TieBreak;
+  neighborOrder: NeighborOrder;
+  blind: boolean;
+  map?: AuthoredMap; // Hand-made boards travel whole; generated ones are rebuilt from the seed
+}
+
+const CHALLENGE_VERSION = 1;
+const HASH_PREFIX = '#c=';
+
+// Records keyed by each union member, so adding a member without listing it here fails to compile
+export const ALGORITHMS: Record<AlgorithmType, true> = {
+  'BFS': true, 'DFS': true, 'Dijkstra': true, 'A*': true, 'Greedy': true,
+  'Bidirectional': true, 'IDDFS': true, 'IDA*': true, 'JPS': true
+};
+export const MAP_TYPES: Record<MapType, true> = {
+  'Open': true, 'Scattered': true, 'Backtracker': true, 'Prim': true, 'Kruskal': true, 'Division': true, 'Caves': true
+};
+const TOPOLOGIES: Record<Topology, true> = { 'Square4': true, 'Square8': true, 'Hex': true };
+const HEURISTICS: Record<HeuristicType, true> = {
+  'Matched': true, 'Manhattan': true, 'Euclidean': true, 'Chebyshev': true, 'Zero': true, 'Overestimate': true
+};
+const RACE_MODES: Record<RaceMode, true> = { 'REALTIME': true, 'TURNS': true };
+const TIE_BREAKS: Record<TieBreak, true> = { 'FIFO': true, 'LIFO': true, 'HIGH_G': true, 'LOW_H': true };
+const NEIGHBOR_ORDERS: Record<NeighborOrder, true> = { 'FIXED': true, 'CLOCKWISE': true, 'GOAL_BIASED': true, 'RANDOM': true };
+
+export const isKeyOf = <K extends string>(known: Record<K, true>, value: unknown): value is K =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(known, value);
+
+// Parsed JSON is only read field by field once it is known to be an object
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// --- Map cells ---
+// One character per cell in row-major order, with runs written as "<count><char>"
+const WALL_CHAR = '#';
+const TERRAIN_CHARS: Record<TerrainType, string> = {
+  [TerrainType.ROAD]: 'r',
+  [TerrainType.PLAIN]: '.',
+  [TerrainType.MUD]: 'm',
+  [TerrainType.WATER]: 'w'
+};
+
+const encodeCells = (map: AuthoredMap): string => {
+  let out = '';
+  let runChar = '';
+  let runLength = 0;
+  const flush = () => {
+    if (runLength > 0) out += (runLength > 1 ? String(runLength) : '') + runChar;
+  };
+
+  for (let r = 0; r < map.rows; r++) {
+    for (let c = 0; c < map.cols; c++) {
+      const key = `${r},${c}`;
+      const char = map.walls.has(key) ? WALL_CHAR : TERRAIN_CHARS[map.terrain.get(key) ?? TerrainType.PLAIN];
+      if (char === runChar) {
+        runLength++;
+      } else {
+        flush();
+        runChar = char;
+        runLength = 1;
+      }
+    }
+  }
+  flush();
+  return out;
+};
+
+const decodeCells = (encoded: string, rows: number, cols: number): Pick<AuthoredMap, 'walls' | 'terrain'> | null => {
+  const terrainByChar = new Map(Object.entries(TERRAIN_CHARS).map(([t, ch]) => [ch, t as TerrainType]));
+  const walls = new Set<string>();
+  const terrain = new Map<string, TerrainType>();
+  let index = 0;
+
+  for (const [, count, char] of encoded.matchAll(/(\d*)(.)/g)) {
+    const length = count ? Number(count) : 1;
+    const cellTerrain = terrainByChar.get(char);
+    if (char !== WALL_CHAR && !cellTerrain) return null;
+
+    for (let i = 0; i < length; i++, index++) {
+      if (index >= rows * cols) return null;
+      const key = `${Math.floor(index / cols)},${index % cols}`;
+      if (char === WALL_CHAR) walls.add(key);
+      else if (cellTerrain !== TerrainType.PLAIN) terrain.set(key, cellTerrain!);
+    }
+  }
+
+  return index === rows * cols ? { walls, terrain } : null;
+};
+
+// --- Codes ---
+// Compact JSON with short keys, then URL-safe base64
+
+const toBase64Url = (text: string) => btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (code: string) => atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+
+export const encodeChallenge = (config: ChallengeConfig): string => {
+  const { movement, heuristic, map } = config;
+  const payload = {
+    v: CHALLENGE_VERSION,
+    s: config.seed,
+    r: config.rows,
+    c: config.cols,
+    t: config.mapType,
+    x: config.mixedTerrain ? 1 : 0,
+    a: config.algorithm,
+    m: config.raceMode,
+    sp: config.raceSpeed,
+    k: config.expansionsPerMove,
+    mv: [movement.topology, movement.diagonalCost, movement.cutCorners ? 1 : 0],
+    h: [heuristic.type, heuristic.overestimate, heuristic.weight],
+    tb: config.tieBreak,
+    no: config.neighborOrder,
+    b: config.blind ? 1 : 0,
+    map: map && {
+      r: map.rows,
+      c: map.cols,
+      s: [map.start.row, map.start.col],
+      g: [map.goal.row, map.goal.col],
+      cells: encodeCells(map)
+    }
+  };
+  return toBase64Url(JSON.stringify(payload));
+};
+
+export const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= GRID_SIZE_LIMITS.min && value <= GRID_SIZE_LIMITS.max;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isCell = (value: unknown, rows: number, cols: number): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 &&
+  Number.isInteger(value[0]) && value[0] >= 0 && value[0] < rows &&
+  Number.isInteger(value[1]) && value[1] >= 0 && value[1] < cols;
+
+// Checks a config from outside (a pasted code, an imported file) field by field
+export const validateChallengeConfig = (value: unknown): ChallengeConfig | null => {
+  if (!isObject(value)) return null;
+  const { seed, rows, cols, mapType, algorithm, raceMode, raceSpeed, expansionsPerMove, movement, heuristic, tieBreak, neighborOrder } = value;
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed >= 4294967296 || !isCount(rows) || !isCount(cols)) return null;
+  if (!isKeyOf(MAP_TYPES, mapType) || !isKeyOf(ALGORITHMS, algorithm) || !isKeyOf(RACE_MODES, raceMode)) return null;
+  if (!isPositive(raceSpeed) || !isPositive(expansionsPerMove)) return null;
+
+  if (!isObject(movement) || !isKeyOf(TOPOLOGIES, movement.topology) || !isPositive(movement.diagonalCost)) return null;
+  if (!isObject(heuristic) || !isKeyOf(HEURISTICS, heuristic.type) || !isPositive(heuristic.overestimate) || !isPositive(heuristic.weight)) return null;
+  // Codes and recordings from before tie-breaking or neighbour order were configurable leave them out
+  if (tieBreak !== undefined && !isKeyOf(TIE_BREAKS, tieBreak)) return null;
+  if (neighborOrder !== undefined && !isKeyOf(NEIGHBOR_ORDERS, neighborOrder)) return null;
+
+  return {
+    seed,
+    rows,
+    cols,
+    mapType,
+    mixedTerrain: value.mixedTerrain === true,
+    algorithm,
+    raceMode,
+    raceSpeed,
+    expansionsPerMove,
+    movement: { topology: movement.topology, diagonalCost: movement.diagonalCost, cutCorners: movement.cutCorners === true },
+    heuristic: { type: heuristic.type, overestimate: heuristic.overestimate, weight: heuristic.weight },
+    tieBreak: isKeyOf(TIE_BREAKS, tieBreak) ? tieBreak : DEFAULT_TIE_BREAK,
+    neighborOrder: isKeyOf(NEIGHBOR_ORDERS, neighborOrder) ? neighborOrder : DEFAULT_NEIGHBOR_ORDER,
+    blind: value.blind === true
+  };
+};
+
+// Start and goal as [row, col], checked against the board bounds
+export const parseCell = (value: unknown, rows: number, cols: number): Coordinate | null =>
+  isCell(value, rows, cols) ? { row: value[0], col: value[1] } : null;
+
+// Returns null for anything that isn't a well-formed code from this version
+export const decodeChallenge = (code: string): ChallengeConfig | null => {
+  let p: unknown;
+  try {
+    p = JSON.parse(fromBase64Url(code.trim()));
+  } catch {
+    return null;
+  }
+  if (!isObject(p) || p.v !== CHALLENGE_VERSION || !Array.isArray(p.mv) || !Array.isArray(p.h)) return null;
+
+  const config = validateChallengeConfig({
+    seed: p.s,
+    rows: p.r,
+    cols: p.c,
+    mapType: p.t,
+    mixedTerrain: p.x === 1,
+    algorithm: p.a,
+    raceMode: p.m,
+    raceSpeed: p.sp,
+    expansionsPerMove: p.k,
+    movement: { topology: p.mv[0], diagonalCost: p.mv[1], cutCorners: p.mv[2] === 1 },
+    heuristic: { type: p.h[0], overestimate: p.h[1], weight: p.h[2] },
+    tieBreak: p.tb,
+    neighborOrder: p.no,
+    blind: p.b === 1
+  });
+  if (!config) return null;
+
+  if (p.map) {
+    if (!isObject(p.map)) return null;
+    const { r, c, cells } = p.map;
+    if (!isCount(r) || !isCount(c) || typeof cells !== 'string') return null;
+    const start = parseCell(p.map.s, r, c);
+    const goal = parseCell(p.map.g, r, c);
+    const decoded = decodeCells(cells, r, c);
+    if (!start || !goal || !decoded) return null;
+    // The editor never allows this; a race that starts on the goal is over before it begins
+    if (start.row === goal.row && start.col === goal.col) return null;
+    config.map = { rows: r, cols: c, ...decoded, start, goal };
+  }
+
+  return config;
+};
+
+// --- Links ---
+
+export const getChallengeLink = (config: ChallengeConfig): string =>
+  `${window.location.origin}${window.location.pathname}${HASH_PREFIX}${encodeChallenge(config)}`;
+
+// Accepts a bare code or a whole pasted link
+export const parseChallengeInput = (input: string): ChallengeConfig | null => {
+  const hashIndex = input.indexOf(HASH_PREFIX);
+  return decodeChallenge(hashIndex >= 0 ? input.slice(hashIndex + HASH_PREFIX.length) : input);
+};
+
+// Challenge in the page's own URL, if it was opened from a link
+export const readChallengeFromLocation = (): ChallengeConfig | null =>
+  window.location.hash.startsWith(HASH_PREFIX) ? parseChallengeInput(window.location.hash) : null;
@@ -0,0 +1,129 @@
+import { AlgoStep, AlgorithmType, Coordinate, GridMap, HeuristicOptions, DEFAULT_HEURISTIC } from '../types';
+import { getHeuristic, isWalkable } from './algorithms';
+
+export type HeatmapType = 'G' | 'H' | 'F' | 'ORDER' | 'DEPTH';
+
+// Values painted over the board as a gradient from `min` to `max`
+export interface Heatmap {
+  values: Map<string, number>;
+  min: number;
+  max: number;
+  showNumbers: boolean;
+}
+
+export const HEATMAP_LABELS: Record<HeatmapType, string> = {
+  'G': "g-cost (cost from start)",
+  'H': "h-cost (estimate to goal)",
+  'F': "f-score (g + h)",
+  'ORDER': "Visit order",
+  'DEPTH': "DFS stack depth"
+};
+
+// Searches whose steps carry the best known cost of each reached cell (AlgoStep.costMap)
+const COST_ALGOS: AlgorithmType[] = ['Dijkstra', 'A*', 'IDDFS', 'IDA*', 'JPS'];
+// Depth-first searches: their frontier is the search stack, in order
+const DEPTH_ALGOS: AlgorithmType[] = ['DFS', 'IDDFS', 'IDA*'];
+
+// Overlays that make sense for an algorithm. h and f give the goal away, so they
+// are only offered once it is known (and never for blind searches, which had no h)
+export const getHeatmapTypes = (algorithm: AlgorithmType, goalKnown: boolean): HeatmapType[] => {
+  const types: HeatmapType[] = [];
+  const hasCost = COST_ALGOS.includes(algorithm);
+  if (hasCost) types.push('G');
+  if (goalKnown) types.push('H');
+  if (goalKnown && hasCost) types.push('F');
+  types.push('ORDER');
+  if (DEPTH_ALGOS.includes(algorithm)) types.push('DEPTH');
+  return types;
+};
+
+// The estimate the algorithm itself uses: A*'s configured heuristic, otherwise the movement-matched distance
+export const getOverlayHeuristic = (algorithm: AlgorithmType, options: HeuristicOptions): HeuristicOptions =>
+  algorithm === 'A*' ? options : DEFAULT_HEURISTIC;
+
+// h for every open cell; independent of the step, so callers compute it once per board
+export const getEstimates = (grid: GridMap, goal: Coordinate, options: HeuristicOptions): Map<string, number> => {
+  const heuristic = getHeuristic(grid, options.type, options.overestimate);
+  const estimates = new Map<string, number>();
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      const cell = { row, col };
+      if (isWalkable(cell, grid)) estimates.set(`${row},${col}`, heuristic(cell, goal));
+    }
+  }
+  return estimates;
+};
+
+const getValues = (type: HeatmapType, step: AlgoStep, estimates: Map<string, number>, weight: number): Map<string, number> => {
+  const values = new Map<string, number>();
+  switch (type) {
+    case 'G':
+      return step.costMap ?? values;
+    case 'H':
+      return estimates;
+    case 'F':
+      step.costMap?.forEach((g, key) => values.set(key, g + weight * (estimates.get(key) ?? 0)));
+      return values;
+    case 'ORDER': {
+      // Sets keep insertion order, so visited lists cells in the order they were marked. That is
+      // expansion order for most searches, but BFS and bidirectional search mark cells when they
+      // are discovered, and JPS marks the cells its jumps scan past.
+      let order = 0;
+      step.visited.forEach(key => values.set(key, ++order));
+      return values;
+    }
+    case 'DEPTH': {
+      let depth = 0;
+      step.frontier.forEach(key => values.set(key, depth++));
+      return values;
+    }
+  }
+};
+
+export const getHeatmap = (
+  type: HeatmapType,
+  step: AlgoStep,
+  estimates: Map<string, number>,
+  weight: number,
+  showNumbers: boolean
+): Heatmap => {
+  const values = getValues(type, step, estimates, weight);
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(v => {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  });
+  return values.size > 0 ? { values, min, max, showNumbers } : { values, min: 0, max: 0, showNumbers };
+};
+
+// --- Colours ---
+
+// Viridis: perceptually even and still ordered in greyscale
+const STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37]
+];
+
+export const HEAT_GRADIENT = `linear-gradient(to right, ${STOPS.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
+
+// Position of a value between the heatmap's min and max, 0..1
+export const heatPosition = (heatmap: Heatmap, value: number): number =>
+  heatmap.max > heatmap.min ? (value - heatmap.min) / (heatmap.max - heatmap.min) : 0;
+
+export const heatColor = (t: number): string => {
+  const scaled = Math.min(1, Math.max(0, t)) * (STOPS.length - 1);
+  const i = Math.min(STOPS.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [r, g, b] = STOPS[i].map((c, k) => Math.round(c + (STOPS[i + 1][k] - c) * f));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+// Dark text on the light end of the gradient, white on the dark end
+export const heatTextColor = (t: number): string => t > 0.6 ? '#1e293b' : '#ffffff';
+
+export const formatHeatValue = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
@@ -0,0 +1,130 @@
+import { AlgorithmType, GameResult, MapType } from '../types';
+import { ALGORITHMS, MAP_TYPES, isKeyOf, isObject } from './challenge';
+import { isGameResult } from './recording';
+
+// One finished game as kept in the browser's match history
+export interface MatchRecord {
+  playedAt: string; // ISO timestamp
+  algorithm: AlgorithmType;
+  rows: number;
+  cols: number;
+  mapType: MapType | 'Custom';
+  blind: boolean;
+  seed: number;
+  result: GameResult;
+}
+
+// Everything the leaderboard shows for one algorithm (and optionally one grid size)
+export interface MatchStats {
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number; // 0..1
+  bestTime: number | null; // Fastest real-time win, in seconds
+  fewestSteps: number | null; // Shortest winning path
+  currentStreak: number; // Wins in a row up to the latest game
+  bestStreak: number;
+}
+
+const STORAGE_KEY = 'pathfinding-race:history';
+const HISTORY_VERSION = 1;
+const MAX_RECORDS = 2000; // Oldest games are dropped past this, keeping storage well under quota
+
+// --- Storage ---
+// Storage can be unavailable (private browsing) or full; the game keeps working without it
+
+// Hand-edited or half-written entries are dropped one by one rather than breaking the leaderboard
+const isMatchRecord = (value: unknown): value is MatchRecord =>
+  isObject(value) && typeof value.playedAt === 'string' && isKeyOf(ALGORITHMS, value.algorithm) &&
+  typeof value.rows === 'number' && typeof value.cols === 'number' &&
+  (value.mapType === 'Custom' || isKeyOf(MAP_TYPES, value.mapType)) &&
+  typeof value.blind === 'boolean' && typeof value.seed === 'number' && isGameResult(value.result);
+
+export const loadHistory = (): MatchRecord[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isObject(stored) && stored.version === HISTORY_VERSION && Array.isArray(stored.matches) ? stored.matches.filter(isMatchRecord) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveHistory = (matches: MatchRecord[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: HISTORY_VERSION, matches }));
+  } catch {
+    // Quota exceeded or storage disabled: the in-memory history still updates
+  }
+};
+
+// Returns the updated history (oldest first)
+export const recordMatch = (match: MatchRecord): MatchRecord[] => {
+  const matches = [...loadHistory(), match].slice(-MAX_RECORDS);
+  saveHistory(matches);
+  return matches;
+};
+
+export const clearHistory = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored to clear
+  }
+};
+
+export const exportHistory = (matches: MatchRecord[]): string =>
+  JSON.stringify({ version: HISTORY_VERSION, exportedAt: new Date().toISOString(), matches }, null, 2);
+
+// --- Stats ---
+
+// Expects matches oldest first, as stored
+export const getMatchStats = (matches: MatchRecord[]): MatchStats => {
+  let wins = 0;
+  let losses = 0;
+  let draws = 0;
+  let bestTime: number | null = null;
+  let fewestSteps: number | null = null;
+  let streak = 0;
+  let bestStreak = 0;
+
+  for (const { result } of matches) {
+    if (result.winner === 'PLAYER') {
+      wins++;
+      streak++;
+      bestStreak = Math.max(bestStreak, streak);
+      if (result.mode === 'REALTIME' && (bestTime === null || result.playerTime < bestTime)) bestTime = result.playerTime;
+      if (fewestSteps === null || result.playerSteps < fewestSteps) fewestSteps = result.playerSteps;
+    } else {
+      if (result.winner === 'DRAW') draws++;
+      else losses++;
+      streak = 0;
+    }
+  }
+
+  return {
+    games: matches.length,
+    wins,
+    losses,
+    draws,
+    winRate: matches.length > 0 ? wins / matches.length : 0,
+    bestTime,
+    fewestSteps,
+    currentStreak: streak,
+    bestStreak
+  };
+};
+
+export const sizeLabel = (match: Pick<MatchRecord, 'rows' | 'cols'>): string => `${match.rows} x ${match.cols}`;
+
+// Matches split by a key, in order of first appearance
+export const groupMatches = (matches: MatchRecord[], keyOf: (match: MatchRecord) => string): Map<string, MatchRecord[]> => {
+  const groups = new Map<string, MatchRecord[]>();
+  for (const match of matches) {
+    const key = keyOf(match);
+    const group = groups.get(key);
+    if (group) group.push(match);
+    else groups.set(key, [match]);
+  }
+  return groups;
+};
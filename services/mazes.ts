@@ -0,0 +1,400 @@
+import { AuthoredMap, Coordinate, GridDimensions, GridMap, MapType, MovementRules, TerrainType } from '../types';
+import { getReachableCells } from './algorithms';
+import { Random } from './random';
+
+// One animation frame of map generation: the cells that changed
+export interface MazeFrame {
+  added: string[]; // Cells that became walls
+  removed: string[]; // Cells carved open
+}
+
+export interface MazeResult {
+  initial: Set<string>; // Wall layout before the first frame
+  frames: MazeFrame[];
+  walls: Set<string>; // Final wall layout
+}
+
+const SCATTER_DENSITY = 0.25; // Fraction of cells turned into walls
+const CAVE_FILL = 0.45; // Initial wall probability before smoothing
+const CAVE_ITERATIONS = 4;
+
+const key = (row: number, col: number) => `${row},${col}`;
+const coordKey = (c: Coordinate) => key(c.row, c.col);
+
+const inBounds = (row: number, col: number, dims: GridDimensions): boolean => {
+  return row >= 0 && row < dims.rows && col >= 0 && col < dims.cols;
+};
+
+const randInt = (n: number, random: Random) => Math.floor(random() * n);
+
+const shuffle = <T>(items: T[], random: Random): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randInt(i + 1, random);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+const range = (from: number, to: number): number[] => {
+  const values: number[] = [];
+  for (let i = from; i <= to; i++) values.push(i);
+  return values;
+};
+
+const allCells = (dims: GridDimensions): Set<string> => {
+  const cells = new Set<string>();
+  for (let r = 0; r < dims.rows; r++) {
+    for (let c = 0; c < dims.cols; c++) cells.add(key(r, c));
+  }
+  return cells;
+};
+
+export const applyMazeFrame = (walls: Set<string>, frame: MazeFrame): void => {
+  frame.added.forEach(k => walls.add(k));
+  frame.removed.forEach(k => walls.delete(k));
+};
+
+const buildResult = (initial: Set<string>, frames: MazeFrame[]): MazeResult => {
+  const walls = new Set(initial);
+  frames.forEach(frame => applyMazeFrame(walls, frame));
+  return { initial, frames, walls };
+};
+
+// --- Room lattice ---
+// Corridor mazes carve "rooms" on every other row/col and knock out the wall between two rooms.
+// Rooms share the start's parity, so the start is always an open room.
+const isRoomLine = (value: number, origin: number) => Math.abs(value - origin) % 2 === 0;
+
+const getRooms = (dims: GridDimensions, start: Coordinate): Coordinate[] => {
+  const rooms: Coordinate[] = [];
+  for (let r = start.row % 2; r < dims.rows; r += 2) {
+    for (let c = start.col % 2; c < dims.cols; c += 2) rooms.push({ row: r, col: c });
+  }
+  return rooms;
+};
+
+const roomNeighbors = (room: Coordinate, dims: GridDimensions): Coordinate[] => {
+  return [
+    { row: room.row - 2, col: room.col },
+    { row: room.row + 2, col: room.col },
+    { row: room.row, col: room.col - 2 },
+    { row: room.row, col: room.col + 2 }
+  ].filter(n => inBounds(n.row, n.col, dims));
+};
+
+const between = (a: Coordinate, b: Coordinate) => key((a.row + b.row) / 2, (a.col + b.col) / 2);
+
+// --- Open Field ---
+const openField = (): MazeResult => buildResult(new Set(), []);
+
+// --- Scattered Walls ---
+// Independent coin flip per cell, revealed one row per frame.
+const scatteredWalls = (dims: GridDimensions, start: Coordinate, random: Random): MazeResult => {
+  const frames: MazeFrame[] = [];
+  for (let r = 0; r < dims.rows; r++) {
+    const added = range(0, dims.cols - 1)
+      .filter(c => !(r === start.row && c === start.col) && random() < SCATTER_DENSITY)
+      .map(c => key(r, c));
+    frames.push({ added, removed: [] });
+  }
+  return buildResult(new Set(), frames);
+};
+
+// --- Recursive Backtracker ---
+// Depth-first carving with an explicit stack: long winding corridors, few branches.
+const recursiveBacktracker = (dims: GridDimensions, start: Coordinate, random: Random): MazeResult => {
+  const frames: MazeFrame[] = [{ added: [], removed: [coordKey(start)] }];
+  const visited = new Set<string>([coordKey(start)]);
+  const stack: Coordinate[] = [start];
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const options = roomNeighbors(current, dims).filter(n => !visited.has(coordKey(n)));
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+
+    const next = options[randInt(options.length, random)];
+    visited.add(coordKey(next));
+    frames.push({ added: [], removed: [between(current, next), coordKey(next)] });
+    stack.push(next);
+  }
+
+  return buildResult(allCells(dims), frames);
+};
+
+// --- Randomized Prim's ---
+// Grows the maze outward from the start by picking random frontier rooms: many short dead ends.
+const randomizedPrim = (dims: GridDimensions, start: Coordinate, random: Random): MazeResult => {
+  const frames: MazeFrame[] = [{ added: [], removed: [coordKey(start)] }];
+  const inMaze = new Set<string>([coordKey(start)]);
+  const frontier: Coordinate[] = [];
+  const frontierKeys = new Set<string>();
+
+  const addFrontier = (room: Coordinate) => {
+    for (const n of roomNeighbors(room, dims)) {
+      const k = coordKey(n);
+      if (!inMaze.has(k) && !frontierKeys.has(k)) {
+        frontier.push(n);
+        frontierKeys.add(k);
+      }
+    }
+  };
+  addFrontier(start);
+
+  while (frontier.length > 0) {
+    const idx = randInt(frontier.length, random);
+    const room = frontier[idx];
+    frontier[idx] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    const links = roomNeighbors(room, dims).filter(n => inMaze.has(coordKey(n)));
+    const link = links[randInt(links.length, random)];
+    inMaze.add(coordKey(room));
+    frames.push({ added: [], removed: [between(room, link), coordKey(room)] });
+    addFrontier(room);
+  }
+
+  return buildResult(allCells(dims), frames);
+};
+
+// --- Randomized Kruskal's ---
+// Joins rooms through walls in random order whenever they are not yet connected (union-find).
+const randomizedKruskal = (dims: GridDimensions, start: Coordinate, random: Random): MazeResult => {
+  const rooms = getRooms(dims, start);
+  const parent = new Map<string, string>();
+  rooms.forEach(r => parent.set(coordKey(r), coordKey(r)));
+
+  const find = (k: string): string => {
+    let root = k;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(k, root);
+    return root;
+  };
+
+  const edges: [Coordinate, Coordinate][] = [];
+  for (const room of rooms) {
+    const right = { row: room.row, col: room.col + 2 };
+    const down = { row: room.row + 2, col: room.col };
+    if (inBounds(right.row, right.col, dims)) edges.push([room, right]);
+    if (inBounds(down.row, down.col, dims)) edges.push([room, down]);
+  }
+
+  const frames: MazeFrame[] = [{ added: [], removed: [coordKey(start)] }];
+  for (const [a, b] of shuffle(edges, random)) {
+    const rootA = find(coordKey(a));
+    const rootB = find(coordKey(b));
+    if (rootA === rootB) continue;
+    parent.set(rootA, rootB);
+    frames.push({ added: [], removed: [coordKey(a), between(a, b), coordKey(b)] });
+  }
+
+  return buildResult(allCells(dims), frames);
+};
+
+// --- Recursive Division ---
+// Starts open and splits each chamber with a wall that has a single gap: long straight walls.
+const recursiveDivision = (dims: GridDimensions, start: Coordinate, random: Random): MazeResult => {
+  const frames: MazeFrame[] = [];
+
+  const divide = (top: number, left: number, bottom: number, right: number) => {
+    if (top > bottom || left > right) return;
+    const wallRows = range(top, bottom).filter(r => !isRoomLine(r, start.row));
+    const wallCols = range(left, right).filter(c => !isRoomLine(c, start.col));
+    if (wallRows.length === 0 && wallCols.length === 0) return;
+
+    const height = bottom - top + 1;
+    const width = right - left + 1;
+    const horizontal = wallCols.length === 0 ||
+      (wallRows.length > 0 && (height > width || (height === width && random() < 0.5)));
+
+    if (horizontal) {
+      const wallRow = wallRows[randInt(wallRows.length, random)];
+      const gaps = range(left, right).filter(c => isRoomLine(c, start.col));
+      const gap = gaps[randInt(gaps.length, random)];
+      frames.push({ added: range(left, right).filter(c => c !== gap).map(c => key(wallRow, c)), removed: [] });
+      divide(top, left, wallRow - 1, right);
+      divide(wallRow + 1, left, bottom, right);
+    } else {
+      const wallCol = wallCols[randInt(wallCols.length, random)];
+      const gaps = range(top, bottom).filter(r => isRoomLine(r, start.row));
+      const gap = gaps[randInt(gaps.length, random)];
+      frames.push({ added: range(top, bottom).filter(r => r !== gap).map(r => key(r, wallCol)), removed: [] });
+      divide(top, left, bottom, wallCol - 1);
+      divide(top, wallCol + 1, bottom, right);
+    }
+  };
+
+  divide(0, 0, dims.rows - 1, dims.cols - 1);
+  return buildResult(new Set(), frames);
+};
+
+// --- Cellular Automata Caves ---
+// Random noise smoothed by a majority rule into organic caverns; pockets cut off from the start are filled in.
+const cellularCaves = (dims: GridDimensions, start: Coordinate, random: Random): MazeResult => {
+  const frames: MazeFrame[] = [];
+  const nearStart = (r: number, c: number) => Math.abs(r - start.row) <= 1 && Math.abs(c - start.col) <= 1;
+
+  for (let r = 0; r < dims.rows; r++) {
+    const added = range(0, dims.cols - 1)
+      .filter(c => !nearStart(r, c) && random() < CAVE_FILL)
+      .map(c => key(r, c));
+    frames.push({ added, removed: [] });
+  }
+
+  let walls = buildResult(new Set(), frames).walls;
+  for (let i = 0; i < CAVE_ITERATIONS; i++) {
+    const next = new Set<string>();
+    const frame: MazeFrame = { added: [], removed: [] };
+
+    for (let r = 0; r < dims.rows; r++) {
+      for (let c = 0; c < dims.cols; c++) {
+        // Out-of-bounds neighbours count as walls, which closes the cave at the edges
+        let wallCount = 0;
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            if (dr === 0 && dc === 0) continue;
+            if (!inBounds(r + dr, c + dc, dims) || walls.has(key(r + dr, c + dc))) wallCount++;
+          }
+        }
+
+        const k = key(r, c);
+        const isWall = walls.has(k);
+        const becomesWall = !nearStart(r, c) && (wallCount > 4 || (wallCount === 4 && isWall));
+        if (becomesWall) next.add(k);
+        if (becomesWall && !isWall) frame.added.push(k);
+        if (!becomesWall && isWall) frame.removed.push(k);
+      }
+    }
+
+    frames.push(frame);
+    walls = next;
+  }
+
+  const reachable = getReachableCells({ ...dims, walls, terrain: new Map() }, start);
+  const sealed = [...allCells(dims)].filter(k => !walls.has(k) && !reachable.has(k));
+  frames.push({ added: sealed, removed: [] });
+
+  return buildResult(new Set(), frames);
+};
+
+export const generateMap = (
+  type: MapType,
+  dims: GridDimensions,
+  start: Coordinate,
+  random: Random = Math.random
+): MazeResult => {
+  switch (type) {
+    case 'Open': return openField();
+    case 'Scattered': return scatteredWalls(dims, start, random);
+    case 'Backtracker': return recursiveBacktracker(dims, start, random);
+    case 'Prim': return randomizedPrim(dims, start, random);
+    case 'Kruskal': return randomizedKruskal(dims, start, random);
+    case 'Division': return recursiveDivision(dims, start, random);
+    case 'Caves': return cellularCaves(dims, start, random);
+  }
+};
+
+// --- Terrain ---
+// Round patches of mud and water, crossed by a few straight roads (roads act as bridges).
+export const generateTerrain = (dims: GridDimensions, random: Random = Math.random): Map<string, TerrainType> => {
+  const terrain = new Map<string, TerrainType>();
+
+  const patchCount = Math.max(2, Math.round((dims.rows * dims.cols) / 40));
+  for (let i = 0; i < patchCount; i++) {
+    const type = random() < 0.5 ? TerrainType.MUD : TerrainType.WATER;
+    const centerR = randInt(dims.rows, random);
+    const centerC = randInt(dims.cols, random);
+    const radius = 1 + randInt(2, random);
+    for (let r = centerR - radius; r <= centerR + radius; r++) {
+      for (let c = centerC - radius; c <= centerC + radius; c++) {
+        if (inBounds(r, c, dims) && (r - centerR) ** 2 + (c - centerC) ** 2 <= radius * radius + 1) {
+          terrain.set(key(r, c), type);
+        }
+      }
+    }
+  }
+
+  const roadCount = Math.max(1, Math.round((dims.rows + dims.cols) / 15));
+  for (let i = 0; i < roadCount; i++) {
+    if (random() < 0.5) {
+      const r = randInt(dims.rows, random);
+      for (let c = 0; c < dims.cols; c++) terrain.set(key(r, c), TerrainType.ROAD);
+    } else {
+      const c = randInt(dims.cols, random);
+      for (let r = 0; r < dims.rows; r++) terrain.set(key(r, c), TerrainType.ROAD);
+    }
+  }
+
+  return terrain;
+};
+
+// --- Boards ---
+// A complete race board: walls, terrain and a goal the start can reach
+
+export interface BoardSettings {
+  dims: GridDimensions;
+  mapType: MapType;
+  mixedTerrain: boolean;
+  movement: MovementRules;
+}
+
+export interface Board {
+  maze: MazeResult;
+  grid: GridMap;
+  start: Coordinate;
+  goal: Coordinate;
+}
+
+const MAX_MAP_ATTEMPTS = 10; // Re-rolls before giving up on a walled-in start
+
+// Only cells reachable from the start are candidates, so every race is winnable.
+export const generateGoal = (grid: GridMap, start: Coordinate, random: Random): Coordinate | null => {
+  const startKey = coordKey(start);
+  const candidates = [...getReachableCells(grid, start)].filter(k => k !== startKey);
+  if (candidates.length === 0) return null;
+
+  const [row, col] = candidates[randInt(candidates.length, random)].split(',').map(Number);
+  return { row, col };
+};
+
+// Null when every attempt walled the start in
+export const generateBoard = (settings: BoardSettings, start: Coordinate, random: Random): Board | null => {
+  const { dims, mapType, mixedTerrain, movement } = settings;
+  const terrain = mixedTerrain ? generateTerrain(dims, random) : new Map<string, TerrainType>();
+
+  for (let attempt = 0; attempt < MAX_MAP_ATTEMPTS; attempt++) {
+    const maze = generateMap(mapType, dims, start, random);
+    const grid: GridMap = { ...dims, walls: maze.walls, terrain, movement };
+    const goal = generateGoal(grid, start, random);
+    if (goal) return { maze, grid, start, goal };
+  }
+  return null;
+};
+
+// A hand-made map used as-is; null if its goal can't be reached under these movement rules
+export const authoredBoard = (map: AuthoredMap, movement: MovementRules): Board | null => {
+  const grid: GridMap = { rows: map.rows, cols: map.cols, walls: map.walls, terrain: map.terrain, movement };
+  if (!getReachableCells(grid, map.start).has(coordKey(map.goal))) return null;
+  return { maze: buildResult(map.walls, []), grid, start: map.start, goal: map.goal };
+};
+
+// Left-right mirror image of a board: same layout and difficulty, opposite way round.
+// Only square cells mirror cleanly; hex rows are offset, so flipping would change which cells touch.
+export const mirrorBoard = (board: Board): Board => {
+  const { grid } = board;
+  const flip = (c: Coordinate): Coordinate => ({ row: c.row, col: grid.cols - 1 - c.col });
+  const flipKey = (k: string) => {
+    const [row, col] = k.split(',').map(Number);
+    return coordKey(flip({ row, col }));
+  };
+  const walls = new Set([...grid.walls].map(flipKey));
+  const terrain = new Map([...grid.terrain].map(([k, t]) => [flipKey(k), t] as [string, TerrainType]));
+  return {
+    maze: buildResult(walls, []),
+    grid: { ...grid, walls, terrain },
+    start: flip(board.start),
+    goal: flip(board.goal)
+  };
+};
@@ -1,82 +1,148 @@
+import { TieBreak, DEFAULT_TIE_BREAK } from '../types';
+
 export interface PQItem<T> {
   item: T;
   priority: number;
 }
 
+// Extra facts about an entry that the tie-breaking policies can use
+export interface TieValues {
+  g?: number; // Cost so far
+  h?: number; // Estimated cost to go
+}
+
+interface HeapNode<T> extends PQItem<T> {
+  tie: number; // Policy key for equal priorities; lower wins
+  order: number; // When the entry was (re)queued; final tie-break, so no two nodes compare equal
+}
+
+// Binary min-heap that also indexes where each item sits, so an item's priority can be lowered
+// in place instead of queueing a duplicate. Each item can be queued at most once.
 export class PriorityQueue<T> {
-  private heap: PQItem<T>[] = [];
+  private heap: HeapNode<T>[] = [];
+  private positions = new Map<T, number>();
+  private counter = 0;
 
-  enqueue(item: T, priority: number): void {
-    const node: PQItem<T> = { item, priority };
+  constructor(private tieBreak: TieBreak = DEFAULT_TIE_BREAK) {}
+
+  enqueue(item: T, priority: number, values: TieValues = {}): void {
+    if (this.positions.has(item)) throw new Error('Item is already queued; use decreaseKey');
+    const node: HeapNode<T> = { item, priority, tie: this.tieOf(values), order: this.counter++ };
     this.heap.push(node);
+    this.positions.set(item, this.heap.length - 1);
     this.bubbleUp(this.heap.length - 1);
   }
 
+  // Lowers a queued item's priority. The entry counts as re-queued now, so FIFO/LIFO treat it as new.
+  // Returns false (and changes nothing) if the item isn't queued or the priority isn't lower.
+  decreaseKey(item: T, priority: number, values: TieValues = {}): boolean {
+    const index = this.positions.get(item);
+    if (index === undefined || priority >= this.heap[index].priority) return false;
+    const node = this.heap[index];
+    node.priority = priority;
+    node.tie = this.tieOf(values);
+    node.order = this.counter++;
+    this.bubbleUp(index);
+    return true;
+  }
+
   dequeue(): T | undefined {
     if (this.isEmpty()) return undefined;
     const min = this.heap[0];
-    const end = this.heap.pop();
-    if (this.heap.length > 0 && end) {
+    const end = this.heap.pop()!;
+    this.positions.delete(min.item);
+    if (this.heap.length > 0) {
       this.heap[0] = end;
+      this.positions.set(end.item, 0);
       this.sinkDown(0);
     }
     return min.item;
   }
 
+  peek(): PQItem<T> | undefined {
+    const top = this.heap[0];
+    return top && { item: top.item, priority: top.priority };
+  }
+
+  contains(item: T): boolean {
+    return this.positions.has(item);
+  }
+
   isEmpty(): boolean {
     return this.heap.length === 0;
   }
 
-  private bubbleUp(n: number): void {
-    const element = this.heap[n];
-    let index = n;
+  get size(): number {
+    return this.heap.length;
+  }
 
-    while (index > 0) {
-      const parentIdx = Math.floor((index + 1) / 2) - 1;
-      const parent = this.heap[parentIdx];
+  // Read-only view of the first `limit` entries in the order dequeue() would return them.
+  // Walks the heap with a small frontier of candidate slots, so it costs O(limit · log limit).
+  ordered(limit = Infinity): PQItem<T>[] {
+    const items: PQItem<T>[] = [];
+    const candidates: number[] = this.heap.length > 0 ? [0] : [];
+    while (items.length < limit && candidates.length > 0) {
+      let best = 0;
+      for (let i = 1; i < candidates.length; i++) {
+        if (this.less(candidates[i], candidates[best])) best = i;
+      }
+      const index = candidates.splice(best, 1)[0];
+      items.push({ item: this.heap[index].item, priority: this.heap[index].priority });
+      for (const child of [2 * index + 1, 2 * index + 2]) {
+        if (child < this.heap.length) candidates.push(child);
+      }
+    }
+    return items;
+  }
+
+  private tieOf(values: TieValues): number {
+    switch (this.tieBreak) {
+      case 'HIGH_G': return -(values.g ?? 0);
+      case 'LOW_H': return values.h ?? 0;
+      default: return 0; // FIFO and LIFO only look at `order`
+    }
+  }
+
+  // Whether the node at slot a is dequeued before the one at slot b
+  private less(a: number, b: number): boolean {
+    const x = this.heap[a];
+    const y = this.heap[b];
+    if (x.priority !== y.priority) return x.priority < y.priority;
+    if (x.tie !== y.tie) return x.tie < y.tie;
+    return this.tieBreak === 'LIFO' ? x.order > y.order : x.order < y.order;
+  }
 
-      if (element.priority >= parent.priority) break;
+  private swap(a: number, b: number): void {
+    [this.heap[a], this.heap[b]] = [this.heap[b], this.heap[a]];
+    this.positions.set(this.heap[a].item, a);
+    this.positions.set(this.heap[b].item, b);
+  }
 
-      this.heap[parentIdx] = element;
-      this.heap[index] = parent;
+  private bubbleUp(n: number): void {
+    let index = n;
+    while (index > 0) {
+      const parentIdx = Math.floor((index - 1) / 2);
+      if (!this.less(index, parentIdx)) break;
+      this.swap(index, parentIdx);
       index = parentIdx;
     }
   }
 
   private sinkDown(n: number): void {
     const length = this.heap.length;
-    const element = this.heap[n];
     let index = n;
 
     while (true) {
-      const leftChildIdx = 2 * (index + 1) - 1;
-      const rightChildIdx = 2 * (index + 1);
-      let leftChild: PQItem<T> | undefined;
-      let rightChild: PQItem<T> | undefined;
-      let swap = null;
-
-      if (leftChildIdx < length) {
-        leftChild = this.heap[leftChildIdx];
-        if (leftChild.priority < element.priority) {
-          swap = leftChildIdx;
-        }
-      }
-
-      if (rightChildIdx < length) {
-        rightChild = this.heap[rightChildIdx];
-        if (
-          (swap === null && rightChild.priority < element.priority) ||
-          (swap !== null && leftChild && rightChild.priority < leftChild.priority)
-        ) {
-          swap = rightChildIdx;
-        }
-      }
+      const leftChildIdx = 2 * index + 1;
+      const rightChildIdx = 2 * index + 2;
+      let smallest = index;
 
-      if (swap === null) break;
+      if (leftChildIdx < length && this.less(leftChildIdx, smallest)) smallest = leftChildIdx;
+      if (rightChildIdx < length && this.less(rightChildIdx, smallest)) smallest = rightChildIdx;
+      if (smallest === index) break;
 
-      this.heap[index] = this.heap[swap];
-      this.heap[swap] = element;
-      index = swap;
+      this.swap(index, smallest);
+      index = smallest;
     }
   }
-}
\ No newline at end of file
+}
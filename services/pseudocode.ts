@@ -0,0 +1,218 @@
+import { AlgorithmType, StepAction } from '../types';
+
+// How the inspector lays out the search's working set
+export type ContainerKind = 'QUEUE' | 'STACK' | 'PRIORITY_QUEUE' | 'LIST';
+
+export interface PseudocodeLine {
+  text: string;
+  indent: number;
+  action?: StepAction; // Highlighted while a step with this action is shown
+}
+
+export interface Pseudocode {
+  lines: PseudocodeLine[];
+  container: ContainerKind;
+  containerName: string;
+  priority?: string; // What priority queue entries are ordered by
+}
+
+const line = (indent: number, text: string, action?: StepAction): PseudocodeLine => ({ text, indent, action });
+
+const BFS: Pseudocode = {
+  container: 'QUEUE',
+  containerName: "Queue",
+  lines: [
+    line(0, "queue ← [start]; mark start discovered"),
+    line(0, "while queue is not empty:"),
+    line(1, "current ← queue.dequeue()", 'expand'),
+    line(1, "if current = goal: return path to current", 'found'),
+    line(1, "for each neighbour n of current:"),
+    line(2, "if n is not discovered:"),
+    line(3, "mark n discovered; parent[n] ← current"),
+    line(3, "queue.enqueue(n)"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+const DFS: Pseudocode = {
+  container: 'STACK',
+  containerName: "Stack",
+  lines: [
+    line(0, "stack ← []; enter(start)"),
+    line(0, "while stack is not empty:"),
+    line(1, "top ← stack.peek()"),
+    line(1, "if top has an untried neighbour n:"),
+    line(2, "if n is not visited: parent[n] ← top; enter(n)"),
+    line(1, "else: stack.pop()  // backtrack", 'backtrack'),
+    line(0, "return failure", 'exhausted'),
+    line(0, "enter(cell):"),
+    line(1, "mark cell visited; stack.push(cell)", 'expand'),
+    line(1, "if cell = goal: return path to cell", 'found')
+  ]
+};
+
+const DIJKSTRA: Pseudocode = {
+  container: 'PRIORITY_QUEUE',
+  containerName: "Priority queue",
+  priority: "dist",
+  lines: [
+    line(0, "dist[start] ← 0; pq.insert(start, 0)"),
+    line(0, "while pq is not empty:"),
+    line(1, "current ← pq.extractMin()", 'expand'),
+    line(1, "if current = goal: return path to current", 'found'),
+    line(1, "for each neighbour n of current:"),
+    line(2, "d ← dist[current] + cost(current, n)"),
+    line(2, "if d < dist[n]:"),
+    line(3, "dist[n] ← d; parent[n] ← current"),
+    line(3, "if n is in pq: pq.decreaseKey(n, d) else pq.insert(n, d)"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+const A_STAR: Pseudocode = {
+  container: 'PRIORITY_QUEUE',
+  containerName: "Open set",
+  priority: "f",
+  lines: [
+    line(0, "g[start] ← 0; open.insert(start, h(start))"),
+    line(0, "while open is not empty:"),
+    line(1, "current ← open.extractMin()  // lowest f = g + w·h", 'expand'),
+    line(1, "if current = goal: return path to current", 'found'),
+    line(1, "for each neighbour n of current:"),
+    line(2, "tentative ← g[current] + cost(current, n)"),
+    line(2, "if tentative < g[n]:"),
+    line(3, "g[n] ← tentative; parent[n] ← current"),
+    line(3, "f ← tentative + w·h(n)"),
+    line(3, "if n is in open: open.decreaseKey(n, f) else open.insert(n, f)"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+const GREEDY: Pseudocode = {
+  container: 'PRIORITY_QUEUE',
+  containerName: "Open set",
+  priority: "h",
+  lines: [
+    line(0, "open.insert(start, h(start)); mark start discovered"),
+    line(0, "while open is not empty:"),
+    line(1, "current ← open.extractMin()  // closest-looking cell", 'expand'),
+    line(1, "if current = goal: return path to current", 'found'),
+    line(1, "for each neighbour n of current:"),
+    line(2, "if n is not discovered:"),
+    line(3, "mark n discovered; parent[n] ← current"),
+    line(3, "open.insert(n, h(n))"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+// Greedy's blind fallback
+const NEAREST_FRONTIER: Pseudocode = {
+  container: 'LIST',
+  containerName: "Frontier (discovery order)",
+  lines: [
+    line(0, "frontier ← [start]; position ← start"),
+    line(0, "while frontier is not empty:"),
+    line(1, "current ← frontier cell nearest to position", 'expand'),
+    line(1, "if current = goal: return path to current", 'found'),
+    line(1, "position ← current"),
+    line(1, "for each undiscovered neighbour n of current:"),
+    line(2, "mark n discovered; parent[n] ← current"),
+    line(2, "frontier.append(n)"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+const BIDIRECTIONAL: Pseudocode = {
+  container: 'QUEUE',
+  containerName: "Queues",
+  lines: [
+    line(0, "forward ← [start]; backward ← [goal]; side ← forward"),
+    line(0, "while both queues are non-empty:"),
+    line(1, "for each current in side's layer:", 'expand'),
+    line(2, "for each neighbour n not yet reached from this side:"),
+    line(3, "mark n; parent[n] ← current"),
+    line(3, "queue n for the side's next layer"),
+    line(1, "if the halves met: return path through the best meeting cell", 'found'),
+    line(1, "side ← the other side"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+const IDDFS: Pseudocode = {
+  container: 'STACK',
+  containerName: "Stack",
+  lines: [
+    line(0, "limit ← 0"),
+    line(0, "loop:"),
+    line(1, "clear visited; probe(start, 0)"),
+    line(1, "if the goal was reached: return path", 'found'),
+    line(1, "if the step budget is spent: give up", 'gave-up'),
+    line(1, "if nothing was cut off: return failure", 'exhausted'),
+    line(1, "limit ← limit + 1"),
+    line(0, "probe(current, depth):"),
+    line(1, "mark current visited; push it on the stack", 'expand'),
+    line(1, "for each neighbour n of current:"),
+    line(2, "if depth + 1 ≤ limit and n wasn't reached in fewer moves this pass:"),
+    line(3, "parent[n] ← current; probe(n, depth + 1)"),
+    line(1, "pop current off the stack")
+  ]
+};
+
+const IDA_STAR: Pseudocode = {
+  container: 'STACK',
+  containerName: "Stack",
+  lines: [
+    line(0, "bound ← h(start)"),
+    line(0, "loop:"),
+    line(1, "clear visited; probe(start, 0)"),
+    line(1, "if the goal was reached: return path", 'found'),
+    line(1, "if the step budget is spent: give up", 'gave-up'),
+    line(1, "if nothing exceeded the bound: return failure", 'exhausted'),
+    line(1, "bound ← smallest f that exceeded it"),
+    line(0, "probe(current, g):"),
+    line(1, "mark current visited; push it on the stack", 'expand'),
+    line(1, "for each neighbour n of current:"),
+    line(2, "g' ← g + cost(current, n)"),
+    line(2, "if g' + h(n) ≤ bound and g' beats n's best g this pass:"),
+    line(3, "parent[n] ← current; probe(n, g')"),
+    line(1, "pop current off the stack")
+  ]
+};
+
+const JPS: Pseudocode = {
+  container: 'PRIORITY_QUEUE',
+  containerName: "Open set",
+  priority: "f",
+  lines: [
+    line(0, "g[start] ← 0; open.insert(start, h(start))"),
+    line(0, "while open is not empty:"),
+    line(1, "current ← open.extractMin(); close it", 'expand'),
+    line(1, "if current = goal: return path, filling in the jumps", 'found'),
+    line(1, "for each direction except back towards parent[current]:"),
+    line(2, "j ← scan ahead to the next cell where a turn could matter"),
+    line(2, "if j exists, isn't closed and g[current] + dist(current, j) < g[j]:"),
+    line(3, "g[j] ← g[current] + dist(current, j); parent[j] ← current"),
+    line(3, "if j is in open: open.decreaseKey(j, g[j] + h(j)) else open.insert(j, g[j] + h(j))"),
+    line(0, "return failure", 'exhausted')
+  ]
+};
+
+const PSEUDOCODE: Record<AlgorithmType, Pseudocode> = {
+  'BFS': BFS,
+  'DFS': DFS,
+  'Dijkstra': DIJKSTRA,
+  'A*': A_STAR,
+  'Greedy': GREEDY,
+  'Bidirectional': BIDIRECTIONAL,
+  'IDDFS': IDDFS,
+  'IDA*': IDA_STAR,
+  'JPS': JPS
+};
+
+// The listing of what actually runs: blind Greedy explores by nearest frontier cell and
+// blind Bidirectional is plain BFS (see runAlgorithm); the others just lose their h
+export const getPseudocode = (algorithm: AlgorithmType, blind: boolean): Pseudocode => {
+  if (blind && algorithm === 'Greedy') return NEAREST_FRONTIER;
+  if (blind && algorithm === 'Bidirectional') return BFS;
+  return PSEUDOCODE[algorithm];
+};
@@ -0,0 +1,27 @@
+// Seeded pseudo-random numbers, so a board can be rebuilt from its seed alone
+
+// Source of numbers in [0, 1), interchangeable with Math.random
+export type Random = () => number;
+
+// Mulberry32: tiny, fast and plenty for map generation
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh 32-bit seed for a round nobody asked to reproduce
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Typed seeds: any whole number from 0 to 2^32 - 1; anything else means "pick one for me"
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed < 4294967296 ? seed : null;
+};
@@ -0,0 +1,151 @@
+import { AuthoredMap, GameResult, PlayerMove, RaceMode, TerrainType } from '../types';
+import { ChallengeConfig, isCount, isKeyOf, isObject, parseCell, validateChallengeConfig } from './challenge';
+
+// A finished game as saved to disk. The board is stored cell by cell even when it came
+// from a seed, so old recordings still load if a generator changes.
+export interface GameRecording {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  config: ChallengeConfig; // Settings and seed; `map` is set when the board was hand-made
+  board: AuthoredMap; // The board as played, including start and goal
+  moves: PlayerMove[];
+  result: GameResult;
+}
+
+const RECORDING_VERSION = 1;
+
+// --- Export ---
+
+interface RecordedBoard {
+  rows: number;
+  cols: number;
+  start: [number, number];
+  goal: [number, number];
+  walls: string[];
+  terrain: [string, TerrainType][];
+}
+
+export const serializeRecording = (recording: GameRecording): string => {
+  const { map, ...config } = recording.config;
+  const { board } = recording;
+  const file = {
+    version: recording.version,
+    recordedAt: recording.recordedAt,
+    config,
+    authored: !!map,
+    board: {
+      rows: board.rows,
+      cols: board.cols,
+      start: [board.start.row, board.start.col],
+      goal: [board.goal.row, board.goal.col],
+      walls: [...board.walls],
+      terrain: [...board.terrain]
+    } satisfies RecordedBoard,
+    moves: recording.moves.map(m => ({ to: [m.to.row, m.to.col], time: m.time, tick: m.tick })),
+    result: recording.result
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const createRecording = (
+  config: ChallengeConfig,
+  board: AuthoredMap,
+  moves: PlayerMove[],
+  result: GameResult
+): GameRecording => ({
+  version: RECORDING_VERSION,
+  recordedAt: new Date().toISOString(),
+  config,
+  board,
+  moves,
+  result
+});
+
+// --- Import ---
+
+const TERRAIN_TYPES = new Set<string>(Object.values(TerrainType));
+const CELL_KEY = /^\d+,\d+$/;
+const WINNERS: Record<GameResult['winner'], true> = { 'PLAYER': true, 'ALGORITHM': true, 'DRAW': true };
+const RACE_MODES: Record<RaceMode, true> = { 'REALTIME': true, 'TURNS': true };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown): value is number | null => value === null || isFiniteNumber(value);
+
+const parseBoard = (value: unknown): AuthoredMap => {
+  if (!isObject(value) || !isCount(value.rows) || !isCount(value.cols)) throw new Error("The board size is missing or out of range.");
+  const rows = value.rows;
+  const cols = value.cols;
+  const start = parseCell(value.start, rows, cols);
+  const goal = parseCell(value.goal, rows, cols);
+  if (!start || !goal) throw new Error("The start or goal lies outside the board.");
+  if (start.row === goal.row && start.col === goal.col) throw new Error("The start and goal are the same cell.");
+
+  const inside = (key: unknown): key is string => {
+    if (typeof key !== 'string' || !CELL_KEY.test(key)) return false;
+    const [r, c] = key.split(',').map(Number);
+    return r < rows && c < cols;
+  };
+  const isTerrainCell = (entry: unknown): entry is [string, TerrainType] =>
+    Array.isArray(entry) && entry.length === 2 && inside(entry[0]) && TERRAIN_TYPES.has(entry[1]);
+
+  const walls: unknown = value.walls;
+  const terrain: unknown = value.terrain;
+  if (!Array.isArray(walls) || !walls.every(inside)) throw new Error("The board's walls are malformed.");
+  if (!Array.isArray(terrain) || !terrain.every(isTerrainCell)) throw new Error("The board's terrain is malformed.");
+
+  return { rows, cols, start, goal, walls: new Set(walls), terrain: new Map(terrain) };
+};
+
+const parseMoves = (value: unknown, board: AuthoredMap): PlayerMove[] => {
+  if (!Array.isArray(value)) throw new Error("The list of player moves is missing.");
+  return value.map((m: unknown) => {
+    if (!isObject(m)) throw new Error("A player move is malformed.");
+    const to = parseCell(m.to, board.rows, board.cols);
+    const { time, tick } = m;
+    if (!to || !isFiniteNumber(time) || typeof tick !== 'number' || !Number.isInteger(tick) || tick < 0) {
+      throw new Error("A player move is malformed.");
+    }
+    return { to, time, tick };
+  });
+};
+
+// Also guards the results kept in the match history
+export const isGameResult = (value: unknown): value is GameResult =>
+  isObject(value) && isKeyOf(WINNERS, value.winner) && isKeyOf(RACE_MODES, value.mode) &&
+  isFiniteNumber(value.playerSteps) && isFiniteNumber(value.playerCost) && isFiniteNumber(value.playerTime) &&
+  isFiniteNumber(value.algoVisitedCount) && isFiniteNumber(value.algoTime) &&
+  isOptionalNumber(value.algoSteps) && isOptionalNumber(value.algoCost);
+
+const parseResult = (value: unknown): GameResult => {
+  if (!isGameResult(value)) throw new Error("The game result is malformed.");
+  const { winner, mode, playerSteps, playerCost, playerTime, algoSteps, algoCost, algoVisitedCount, algoTime } = value;
+  return { winner, mode, playerSteps, playerCost, playerTime, algoSteps, algoCost, algoVisitedCount, algoTime };
+};
+
+// Throws an Error with a readable message when the file can't be used
+export const parseRecording = (text: string): GameRecording => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isObject(file) || typeof file.version !== 'number') throw new Error("This is not a game recording.");
+  if (file.version > RECORDING_VERSION) throw new Error("This recording was made by a newer version of the game.");
+  if (file.version !== RECORDING_VERSION) throw new Error(`Recording version ${file.version} is not supported.`);
+
+  const config = validateChallengeConfig(file.config);
+  if (!config) throw new Error("The recording's game settings are malformed.");
+  const board = parseBoard(file.board);
+  if (file.authored === true) config.map = board;
+
+  return {
+    version: file.version,
+    recordedAt: typeof file.recordedAt === 'string' ? file.recordedAt : '',
+    config,
+    board,
+    moves: parseMoves(file.moves, board),
+    result: parseResult(file.result)
+  };
+};
@@ -0,0 +1,112 @@
+import { TraceEvent } from '../types';
+import { runAlgorithm } from './algorithms';
+import { AlgoTrace } from './trace';
+import type { SearchRequest, SearchMessage } from './searchWorker';
+
+export type { SearchRequest };
+
+export interface SearchCallbacks {
+  onBatch: (events: TraceEvent[]) => void;
+  onDone: () => void;
+  onError: (message: string) => void;
+}
+
+// Handle to a running search; cancel() stops it and drops any further callbacks
+export interface SearchHandle {
+  cancel: () => void;
+}
+
+// Same protocol as the worker, but on the main thread (no Worker support, or the worker failed to load)
+const runInline = (request: SearchRequest, callbacks: SearchCallbacks): SearchHandle => {
+  let cancelled = false;
+  const timer = window.setTimeout(() => {
+    try {
+      const { algorithm, grid, start, goal, options } = request;
+      runAlgorithm(algorithm, grid, start, goal, events => { if (!cancelled) callbacks.onBatch(events); }, options);
+      if (!cancelled) callbacks.onDone();
+    } catch (err) {
+      if (!cancelled) callbacks.onError(err instanceof Error ? err.message : String(err));
+    }
+  }, 0);
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      clearTimeout(timer);
+    }
+  };
+};
+
+// Starts a search in a dedicated Web Worker. Cancelling terminates the worker,
+// which is the only way to interrupt a synchronous search loop.
+export const startSearch = (request: SearchRequest, callbacks: SearchCallbacks): SearchHandle => {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return runInline(request, callbacks);
+  }
+
+  let fallback: SearchHandle | null = null;
+  let received = false;
+
+  worker.onmessage = (e: MessageEvent<SearchMessage>) => {
+    const message = e.data;
+    switch (message.type) {
+      case 'batch':
+        received = true;
+        callbacks.onBatch(message.events);
+        break;
+      case 'done':
+        callbacks.onDone();
+        worker.terminate();
+        break;
+      case 'error':
+        callbacks.onError(message.message);
+        worker.terminate();
+        break;
+    }
+  };
+
+  // A worker that fails before sending anything (e.g. the script could not load) is retried inline
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    worker.terminate();
+    if (received) callbacks.onError(e.message || "Search worker crashed");
+    else fallback = runInline(request, callbacks);
+  };
+
+  worker.postMessage(request);
+
+  return {
+    cancel: () => {
+      worker.terminate();
+      fallback?.cancel();
+    }
+  };
+};
+
+// Whole search collected into a trace, for callers that only need the end result.
+// Cancelling rejects the promise so an awaiting loop can stop.
+export const collectSearch = (request: SearchRequest): { done: Promise<AlgoTrace>; cancel: () => void } => {
+  const trace = new AlgoTrace();
+  let handle: SearchHandle | null = null;
+  let fail: (error: Error) => void = () => {};
+
+  const done = new Promise<AlgoTrace>((resolve, reject) => {
+    fail = reject;
+    handle = startSearch(request, {
+      onBatch: events => trace.append(events),
+      onDone: () => resolve(trace),
+      onError: message => reject(new Error(message))
+    });
+  });
+
+  return {
+    done,
+    cancel: () => {
+      handle?.cancel();
+      fail(new Error("Search cancelled"));
+    }
+  };
+};
@@ -0,0 +1,28 @@
+// Runs one search off the main thread and streams its trace back in batches.
+import { AlgorithmType, Coordinate, GridMap, SearchOptions, TraceEvent } from '../types';
+import { runAlgorithm } from './algorithms';
+
+export interface SearchRequest {
+  algorithm: AlgorithmType;
+  grid: GridMap;
+  start: Coordinate;
+  goal: Coordinate;
+  options?: SearchOptions;
+}
+
+export type SearchMessage =
+  | { type: 'batch'; events: TraceEvent[] }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+const post = (message: SearchMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<SearchRequest>) => {
+  const { algorithm, grid, start, goal, options } = e.data;
+  try {
+    runAlgorithm(algorithm, grid, start, goal, events => post({ type: 'batch', events }), options);
+    post({ type: 'done' });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,47 @@
+import { AlgoStep, GridMap } from '../types';
+import { getPathCost } from './algorithms';
+import { AlgoTrace } from './trace';
+
+// Figures for one search as of a given step
+export interface RunStats {
+  visited: number; // Cells in the visited set (both halves for bidirectional searches)
+  frontierPeak: number;
+  pathLength: number | null; // Null until the path is found, or if there is none
+  pathCost: number | null;
+  exhausted: boolean;
+  gaveUp: boolean;
+}
+
+// Pass `step` when it has already been rebuilt for rendering
+export const getRunStats = (trace: AlgoTrace, grid: GridMap, index = trace.length - 1, step: AlgoStep = trace.getStep(index)): RunStats => {
+  const path = trace.pathStepIndex >= 0 && index >= trace.pathStepIndex ? trace.path : undefined;
+  const finished = index >= trace.length - 1;
+  return {
+    visited: step.visited.size + (step.backwardVisited?.size ?? 0),
+    frontierPeak: trace.frontierPeak(index),
+    pathLength: path ? path.length - 1 : null,
+    pathCost: path ? getPathCost(path, grid) : null,
+    exhausted: finished && trace.exhausted,
+    gaveUp: finished && trace.gaveUp
+  };
+};
+
+export interface Summary {
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+}
+
+// Null for an empty sample
+export const summarize = (values: number[]): Summary | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    median: sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+};
@@ -0,0 +1,128 @@
+import { Coordinate, DIRECTIONS, MovementRules, Topology } from '../types';
+
+// A move the player can ask for; which ones exist depends on the topology
+export type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | 'UP_LEFT' | 'UP_RIGHT' | 'DOWN_LEFT' | 'DOWN_RIGHT';
+
+const DIAGONALS: Coordinate[] = [
+  { row: -1, col: -1 },
+  { row: -1, col: 1 },
+  { row: 1, col: -1 },
+  { row: 1, col: 1 }
+];
+
+// Hex neighbours in the "odd-r" layout: the offsets of the rows above and below depend on row parity
+const HEX_EVEN_ROW: Coordinate[] = [
+  { row: -1, col: -1 }, { row: -1, col: 0 },
+  { row: 0, col: -1 }, { row: 0, col: 1 },
+  { row: 1, col: -1 }, { row: 1, col: 0 }
+];
+const HEX_ODD_ROW: Coordinate[] = [
+  { row: -1, col: 0 }, { row: -1, col: 1 },
+  { row: 0, col: -1 }, { row: 0, col: 1 },
+  { row: 1, col: 0 }, { row: 1, col: 1 }
+];
+
+const SQUARE8 = [...DIRECTIONS, ...DIAGONALS];
+
+// Offsets from a cell to each of its potential neighbours
+export const getDirections = (cell: Coordinate, topology: Topology): Coordinate[] => {
+  switch (topology) {
+    case 'Square4': return DIRECTIONS;
+    case 'Square8': return SQUARE8;
+    case 'Hex': return cell.row % 2 === 0 ? HEX_EVEN_ROW : HEX_ODD_ROW;
+  }
+};
+
+export const isDiagonalMove = (from: Coordinate, to: Coordinate, topology: Topology): boolean => {
+  return topology === 'Square8' && from.row !== to.row && from.col !== to.col;
+};
+
+// Cube coordinates turn hex distance into a simple max of three axis differences
+const toCube = (c: Coordinate) => {
+  const x = c.col - (c.row - (c.row & 1)) / 2;
+  return { x, y: -x - c.row, z: c.row };
+};
+
+// Fewest moves between two cells on an empty board, with diagonals priced at `diagonalCost`.
+// Square4: Manhattan. Square8: octile, which is Chebyshev when diagonals cost 1. Hex: hex distance.
+export const getDistance = (a: Coordinate, b: Coordinate, movement: MovementRules): number => {
+  const dRow = Math.abs(a.row - b.row);
+  const dCol = Math.abs(a.col - b.col);
+  switch (movement.topology) {
+    case 'Square4':
+      return dRow + dCol;
+    case 'Square8':
+      return Math.max(dRow, dCol) + (movement.diagonalCost - 1) * Math.min(dRow, dCol);
+    case 'Hex': {
+      const ca = toCube(a);
+      const cb = toCube(b);
+      return Math.max(Math.abs(ca.x - cb.x), Math.abs(ca.y - cb.y), Math.abs(ca.z - cb.z));
+    }
+  }
+};
+
+// Clockwise angle from straight up to the neighbour `to`, in radians [0, 2π), as the cells are drawn:
+// odd hex rows sit half a cell to the right and hex rows are packed √3/2 apart
+export const getBearing = (from: Coordinate, to: Coordinate, topology: Topology): number => {
+  const shift = (c: Coordinate) => topology === 'Hex' && c.row % 2 === 1 ? 0.5 : 0;
+  const x = to.col + shift(to) - from.col - shift(from);
+  const y = (to.row - from.row) * (topology === 'Hex' ? Math.sqrt(3) / 2 : 1);
+  const angle = Math.atan2(x, -y);
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+};
+
+// Name of the distance getDistance() uses, for the UI
+export const getDistanceName = (movement: MovementRules): string => {
+  switch (movement.topology) {
+    case 'Square4': return 'Manhattan';
+    case 'Square8': return movement.diagonalCost === 1 ? 'Chebyshev' : 'Octile';
+    case 'Hex': return 'Hex';
+  }
+};
+
+// Cell one move away in the given direction, or null if the topology has no such move.
+// Hexes have no straight up/down; their diagonals land on the row above/below.
+export const stepInDirection = (cell: Coordinate, direction: MoveDirection, topology: Topology): Coordinate | null => {
+  const offsets: Record<MoveDirection, Coordinate> = {
+    UP: { row: -1, col: 0 },
+    DOWN: { row: 1, col: 0 },
+    LEFT: { row: 0, col: -1 },
+    RIGHT: { row: 0, col: 1 },
+    UP_LEFT: { row: -1, col: -1 },
+    UP_RIGHT: { row: -1, col: 1 },
+    DOWN_LEFT: { row: 1, col: -1 },
+    DOWN_RIGHT: { row: 1, col: 1 }
+  };
+  const diagonal = direction.includes('_');
+  const { row } = offsets[direction];
+  let { col } = offsets[direction];
+
+  if (topology === 'Square4' && diagonal) return null;
+  if (topology === 'Hex') {
+    if (direction === 'UP' || direction === 'DOWN') return null;
+    // In odd-r layout the left diagonal keeps the column on odd rows, the right one on even rows
+    if (diagonal) col = cell.row % 2 === 0 ? Math.min(col, 0) : Math.max(col, 0);
+  }
+  return { row: cell.row + row, col: cell.col + col };
+};
+
+const MOVE_DIRECTIONS: MoveDirection[] = ['UP_LEFT', 'UP', 'UP_RIGHT', 'LEFT', 'RIGHT', 'DOWN_LEFT', 'DOWN', 'DOWN_RIGHT'];
+
+// Moves the topology offers, in reading order (for laying out on-screen controls)
+export const getMoveDirections = (topology: Topology): MoveDirection[] =>
+  MOVE_DIRECTIONS.filter(direction => stepInDirection({ row: 0, col: 0 }, direction, topology) !== null);
+
+// The move drawn closest to `bearing` (clockwise from up, as in getBearing), e.g. to turn a swipe into a step
+export const getDirectionTowards = (cell: Coordinate, bearing: number, topology: Topology): MoveDirection => {
+  let best: MoveDirection = 'UP';
+  let bestAngle = Infinity;
+  for (const direction of getMoveDirections(topology)) {
+    const diff = Math.abs(getBearing(cell, stepInDirection(cell, direction, topology)!, topology) - bearing);
+    const angle = Math.min(diff, 2 * Math.PI - diff);
+    if (angle < bestAngle) {
+      best = direction;
+      bestAngle = angle;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,226 @@
+import { AlgoStep, Coordinate, TraceEvent } from '../types';
+
+// A snapshot is taken once at least this many events, and at least as many events as the
+// state holds, have passed: lookups replay a bounded stretch while snapshots never cost more
+// memory than the events themselves (iterative deepening produces very long traces)
+const KEYFRAME_MIN_EVENTS = 512;
+const FLUSH_INTERVAL = 256; // Steps per streamed batch
+
+type StepEvent = Extract<TraceEvent, { type: 'step' }>;
+
+interface TraceState {
+  visited: Set<string>;
+  frontier: Set<string>;
+  costMap: Map<string, number>;
+  backwardVisited: Set<string>;
+  backwardFrontier: Set<string>;
+}
+
+interface Keyframe {
+  index: number; // Step the snapshot was taken after
+  state: TraceState;
+}
+
+const emptyState = (): TraceState => ({
+  visited: new Set(),
+  frontier: new Set(),
+  costMap: new Map(),
+  backwardVisited: new Set(),
+  backwardFrontier: new Set()
+});
+
+const copyState = (s: TraceState): TraceState => ({
+  visited: new Set(s.visited),
+  frontier: new Set(s.frontier),
+  costMap: new Map(s.costMap),
+  backwardVisited: new Set(s.backwardVisited),
+  backwardFrontier: new Set(s.backwardFrontier)
+});
+
+const stateSize = (s: TraceState): number =>
+  s.visited.size + s.frontier.size + s.costMap.size + s.backwardVisited.size + s.backwardFrontier.size;
+
+const applyEvent = (s: TraceState, e: TraceEvent): void => {
+  switch (e.type) {
+    case 'visit': (e.backward ? s.backwardVisited : s.visited).add(e.key); break;
+    case 'push': (e.backward ? s.backwardFrontier : s.frontier).add(e.key); break;
+    case 'pop': (e.backward ? s.backwardFrontier : s.frontier).delete(e.key); break;
+    case 'backtrack': s.frontier.delete(e.key); break;
+    case 'relax': s.costMap.set(e.key, e.cost); break;
+    case 'reset':
+      s.visited.clear();
+      s.frontier.clear();
+      s.costMap.clear();
+      break;
+    case 'step': break;
+  }
+};
+
+// Collects events while an algorithm runs.
+// With `onBatch`, events are streamed out every few steps instead of being kept,
+// and finish() returns an empty trace.
+export class TraceRecorder {
+  private events: TraceEvent[] = [];
+  private pendingSteps = 0;
+
+  constructor(private onBatch?: (events: TraceEvent[]) => void) {}
+
+  visit(key: string, backward = false): void {
+    this.events.push(backward ? { type: 'visit', key, backward } : { type: 'visit', key });
+  }
+
+  push(key: string, backward = false): void {
+    this.events.push(backward ? { type: 'push', key, backward } : { type: 'push', key });
+  }
+
+  pop(key: string, backward = false): void {
+    this.events.push(backward ? { type: 'pop', key, backward } : { type: 'pop', key });
+  }
+
+  relax(key: string, cost: number): void {
+    this.events.push({ type: 'relax', key, cost });
+  }
+
+  backtrack(key: string): void {
+    this.events.push({ type: 'backtrack', key });
+  }
+
+  reset(): void {
+    this.events.push({ type: 'reset' });
+  }
+
+  // Closes the current AlgoStep
+  step(frame: Omit<StepEvent, 'type'> = {}): void {
+    this.events.push({ type: 'step', ...frame });
+    if (this.onBatch && ++this.pendingSteps >= FLUSH_INTERVAL) this.flush();
+  }
+
+  finish(): AlgoTrace {
+    const trace = new AlgoTrace();
+    if (this.onBatch) this.flush();
+    else trace.append(this.events);
+    return trace;
+  }
+
+  private flush(): void {
+    if (this.events.length > 0) this.onBatch!(this.events);
+    this.events = [];
+    this.pendingSteps = 0;
+  }
+}
+
+// Random-access view over a trace: any AlgoStep is rebuilt from the nearest keyframe
+export class AlgoTrace {
+  private events: TraceEvent[] = [];
+  private stepOffsets: number[] = []; // Index in `events` of each 'step' event
+  private frontierPeaks: number[] = []; // Largest frontier seen up to each step
+  private keyframes: Keyframe[] = [];
+  private tail: TraceState = emptyState(); // State after every appended event
+  private eventsSinceKeyframe = 0;
+  private cursor: { index: number; state: TraceState } | null = null; // Last lookup, for cheap sequential playback
+
+  private pathIndex = -1;
+
+  get length(): number {
+    return this.stepOffsets.length;
+  }
+
+  // Final path, if the search reached the goal
+  get path(): Coordinate[] | undefined {
+    if (this.pathIndex < 0) return undefined;
+    return (this.events[this.stepOffsets[this.pathIndex]] as StepEvent).path;
+  }
+
+  // Index of the step that carries the final path (-1 if none yet)
+  get pathStepIndex(): number {
+    return this.pathIndex;
+  }
+
+  get exhausted(): boolean {
+    return this.length > 0 && !!this.stepEvent(this.length - 1).exhausted;
+  }
+
+  // Exhausted because the search hit its step budget, not because the goal is unreachable
+  get gaveUp(): boolean {
+    return this.length > 0 && !!this.stepEvent(this.length - 1).gaveUp;
+  }
+
+  append(events: TraceEvent[]): void {
+    for (const e of events) {
+      this.events.push(e);
+      applyEvent(this.tail, e);
+      this.eventsSinceKeyframe++;
+      if (e.type !== 'step') continue;
+
+      const index = this.stepOffsets.length;
+      this.stepOffsets.push(this.events.length - 1);
+      const frontierSize = this.tail.frontier.size + this.tail.backwardFrontier.size;
+      this.frontierPeaks.push(Math.max(frontierSize, index > 0 ? this.frontierPeaks[index - 1] : 0));
+      if (index === 0 || this.eventsSinceKeyframe >= Math.max(KEYFRAME_MIN_EVENTS, stateSize(this.tail))) {
+        this.keyframes.push({ index, state: copyState(this.tail) });
+        this.eventsSinceKeyframe = 0;
+      }
+      if (this.pathIndex < 0 && e.path && e.path.length > 0) this.pathIndex = index;
+    }
+  }
+
+  // Largest frontier (both halves for bidirectional searches) at or before step `index`
+  frontierPeak(index: number): number {
+    const i = Math.min(index, this.length - 1);
+    return i < 0 ? 0 : this.frontierPeaks[i];
+  }
+
+  getStep(index: number): AlgoStep {
+    const i = Math.min(Math.max(0, index), this.length - 1);
+    if (i < 0) return { visited: new Set(), frontier: new Set() };
+
+    // Continue from the previous lookup when moving forward a little, otherwise restart at a keyframe
+    const keyframe = this.keyframeBefore(i);
+    if (!this.cursor || this.cursor.index > i || this.cursor.index < keyframe.index) {
+      this.cursor = { index: keyframe.index, state: copyState(keyframe.state) };
+    }
+
+    const { state } = this.cursor;
+    for (let e = this.stepOffsets[this.cursor.index] + 1; e <= this.stepOffsets[i]; e++) {
+      applyEvent(state, this.events[e]);
+    }
+    this.cursor.index = i;
+
+    const frame = this.stepEvent(i);
+    const step: AlgoStep = {
+      visited: new Set(state.visited),
+      frontier: new Set(state.frontier),
+      current: frame.current,
+      path: frame.path,
+      depth: frame.depth,
+      exhausted: frame.exhausted,
+      gaveUp: frame.gaveUp,
+      action: frame.action,
+      bound: frame.bound,
+      queue: frame.queue,
+      queueSize: frame.queueSize
+    };
+    if (state.costMap.size > 0) step.costMap = new Map(state.costMap);
+    if (state.backwardVisited.size > 0 || state.backwardFrontier.size > 0) {
+      step.backwardVisited = new Set(state.backwardVisited);
+      step.backwardFrontier = new Set(state.backwardFrontier);
+    }
+    return step;
+  }
+
+  // Latest keyframe at or before step `index` (binary search; keyframes are irregularly spaced)
+  private keyframeBefore(index: number): Keyframe {
+    let lo = 0;
+    let hi = this.keyframes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.keyframes[mid].index <= index) lo = mid;
+      else hi = mid - 1;
+    }
+    return this.keyframes[lo];
+  }
+
+  private stepEvent(index: number): StepEvent {
+    return this.events[this.stepOffsets[index]] as StepEvent;
+  }
+}
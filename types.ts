@@ -1,4 +1,6 @@
-export type AlgorithmType = 'BFS' | 'DFS' | 'Dijkstra' | 'A*';
+export type AlgorithmType = 'BFS' | 'DFS' | 'Dijkstra' | 'A*' | 'Greedy' | 'Bidirectional' | 'IDDFS' | 'IDA*' | 'JPS';
+
+export type MapType = 'Open' | 'Scattered' | 'Backtracker' | 'Prim' | 'Kruskal' | 'Division' | 'Caves';
 
 export type Coordinate = {
   row: number;
@@ -10,17 +12,103 @@ export type GridDimensions = {
   cols: number;
 };
 
+// Terrain of a walkable cell; each has its own movement cost
+export enum TerrainType {
+  ROAD = 'ROAD',
+  PLAIN = 'PLAIN',
+  MUD = 'MUD',
+  WATER = 'WATER'
+}
+
+// Cost of stepping INTO a cell of the given terrain
+export const TERRAIN_COSTS: Record<TerrainType, number> = {
+  [TerrainType.ROAD]: 0.5,
+  [TerrainType.PLAIN]: 1,
+  [TerrainType.MUD]: 3,
+  [TerrainType.WATER]: 5
+};
+
+// How cells connect: squares with 4 or 8 neighbours, or hexagons with odd rows shifted half a cell right
+export type Topology = 'Square4' | 'Square8' | 'Hex';
+
+export interface MovementRules {
+  topology: Topology;
+  diagonalCost: number; // Square8 only: multiplier for diagonal moves (1, or √2 for true distance)
+  cutCorners: boolean; // Square8 only: whether a diagonal may squeeze past a wall's corner
+}
+
+export const DEFAULT_MOVEMENT: MovementRules = { topology: 'Square4', diagonalCost: 1, cutCorners: false };
+
+// Static layout of the board: dimensions plus impassable cells
+export interface GridMap extends GridDimensions {
+  walls: Set<string>; // Set of "row,col" strings
+  terrain: Map<string, TerrainType>; // Cells not listed are PLAIN
+  movement?: MovementRules; // Defaults to DEFAULT_MOVEMENT
+}
+
+// A hand-authored board from the map editor
+export interface AuthoredMap extends GridMap {
+  start: Coordinate;
+  goal: Coordinate;
+}
+
+// Distance estimate used by A*. 'Matched' follows the movement rules (Manhattan, octile or hex);
+// 'Overestimate' multiplies that by a factor and is deliberately inadmissible.
+export type HeuristicType = 'Matched' | 'Manhattan' | 'Euclidean' | 'Chebyshev' | 'Zero' | 'Overestimate';
+
+export interface HeuristicOptions {
+  type: HeuristicType;
+  overestimate: number; // k for 'Overestimate'
+  weight: number; // ε in f = g + ε·h (weighted A*); 1 is plain A*
+}
+
+export const DEFAULT_HEURISTIC: HeuristicOptions = { type: 'Matched', overestimate: 2, weight: 1 };
+
+// How a priority queue orders entries of equal priority: oldest first, newest first,
+// deepest (highest cost so far) first, or closest-looking (lowest estimate) first
+export type TieBreak = 'FIFO' | 'LIFO' | 'HIGH_G' | 'LOW_H';
+
+export const DEFAULT_TIE_BREAK: TieBreak = 'FIFO';
+
+// Order in which a search tries a cell's neighbours: as listed in DIRECTIONS (up, down, left, right),
+// clockwise from up, nearest to the goal first, or shuffled per cell from a seed
+export type NeighborOrder = 'FIXED' | 'CLOCKWISE' | 'GOAL_BIASED' | 'RANDOM';
+
+export const DEFAULT_NEIGHBOR_ORDER: NeighborOrder = 'FIXED';
+
+// Per-search knobs beyond the algorithm itself
+export interface SearchOptions {
+  heuristic?: HeuristicOptions; // A* only
+  tieBreak?: TieBreak; // Priority queue searches (Dijkstra, A*, Greedy, JPS)
+  neighborOrder?: NeighborOrder;
+  neighborSeed?: number; // RANDOM only; the board seed, so a shared board shuffles the same way
+  blind?: boolean; // The goal is only recognised when stepped on; no search may aim for it
+}
+
+// Bounds for rows/cols, shared by the setup panel and the map editor
+export const GRID_SIZE_LIMITS = { min: 5, max: 200 }; // Boards above CANVAS_CELL_THRESHOLD cells are drawn on a canvas
+
 // State of a cell during algorithm execution
 export enum CellState {
   EMPTY = 'EMPTY',
   START = 'START',
   GOAL = 'GOAL',
+  WALL = 'WALL', // Impassable obstacle
   VISITED = 'VISITED', // Processed
   FRONTIER = 'FRONTIER', // In queue/stack
   PATH = 'PATH', // Final path
   CURRENT = 'CURRENT' // Currently being inspected
 }
 
+// What an algorithm did in one step; the pseudocode panel highlights the matching line
+export type StepAction = 'expand' | 'backtrack' | 'found' | 'exhausted' | 'gave-up';
+
+// One priority queue entry, as listed by PriorityQueue.ordered()
+export interface QueueEntry {
+  key: string;
+  priority: number;
+}
+
 // A snapshot of the algorithm's memory at a specific step
 export interface AlgoStep {
   visited: Set<string>; // Set of "row,col" strings
@@ -29,15 +117,59 @@ export interface AlgoStep {
   path?: Coordinate[];
   depth?: number; // For DFS visualization
   costMap?: Map<string, number>; // For Dijkstra/A* visualization
+  exhausted?: boolean; // Search space ran out without reaching the goal
+  gaveUp?: boolean; // Stopped at its step budget before finding the goal (implies exhausted)
+  backwardVisited?: Set<string>; // Bidirectional search: the half grown from the goal
+  backwardFrontier?: Set<string>;
+  action?: StepAction;
+  bound?: number; // Iterative deepening: depth limit (IDDFS) or f bound (IDA*) of the current pass
+  queue?: QueueEntry[]; // Priority queue searches: the first entries in dequeue order
+  queueSize?: number; // Entries in the priority queue, including those beyond `queue`
 }
 
+// One entry of a compact search trace. AlgoSteps are rebuilt from these on demand
+// (see services/trace.ts) instead of storing full Set/Map copies per step.
+// `backward` marks events of the goal-side half of a bidirectional search.
+export type TraceEvent =
+  | { type: 'visit'; key: string; backward?: true } // Added to visited
+  | { type: 'push'; key: string; backward?: true } // Added to frontier
+  | { type: 'pop'; key: string; backward?: true } // Removed from frontier
+  | { type: 'relax'; key: string; cost: number } // Best known cost improved
+  | { type: 'backtrack'; key: string } // Left the DFS recursion stack
+  | { type: 'reset' } // Iterative deepening starts over: visited, frontier and costs are cleared
+  | { // Closes one AlgoStep
+      type: 'step';
+      current?: Coordinate;
+      depth?: number;
+      path?: Coordinate[];
+      exhausted?: boolean;
+      gaveUp?: boolean;
+      action?: StepAction;
+      bound?: number;
+      queue?: QueueEntry[];
+      queueSize?: number;
+    };
+
+// REALTIME: the algorithm steps on a timer. TURNS: it takes a fixed number of steps per player move.
+export type RaceMode = 'REALTIME' | 'TURNS';
+
 export interface GameResult {
   winner: 'PLAYER' | 'ALGORITHM' | 'DRAW';
+  mode: RaceMode;
   playerSteps: number;
-  playerTime: number;
-  algoSteps: number; // Path length
-  algoVisitedCount: number;
-  algoTime: number; // Simulated ticks
+  playerCost: number; // Sum of terrain costs along the player's moves
+  playerTime: number; // Seconds
+  algoSteps: number | null; // Path length (null if the algorithm found no path)
+  algoCost: number | null; // Sum of terrain costs along the algorithm's path
+  algoVisitedCount: number; // Cells explored by the end of the race
+  algoTime: number; // Simulated ticks: steps taken to reach the goal, or all steps taken if it didn't
+}
+
+// One player move, stamped so a replay can interleave it with the algorithm's steps
+export interface PlayerMove {
+  to: Coordinate;
+  time: number; // Milliseconds since the race started
+  tick: number; // Algorithm step shown when the move was made
 }
 
 export const DIRECTIONS = [